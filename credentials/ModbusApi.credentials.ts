@@ -14,24 +14,149 @@ export class ModbusApi implements ICredentialType {
 			type: 'options',
 			options: [
 				{
-					name: 'modbus',
+					name: 'Modbus TCP',
 					value: 'tcp',
 				},
+				{
+					name: 'Modbus RTU (Serial)',
+					value: 'rtu',
+				},
 			],
-			default: 'modbus',
+			default: 'tcp',
 		},
 		{
 			displayName: 'Host',
 			name: 'host',
 			type: 'string',
+			displayOptions: {
+				hide: {
+					protocol: ['rtu'],
+				},
+			},
 			default: '',
 		},
 		{
 			displayName: 'Port',
 			name: 'port',
 			type: 'number',
+			displayOptions: {
+				hide: {
+					protocol: ['rtu'],
+				},
+			},
 			default: 502,
 		},
+		{
+			displayName: 'Framing',
+			name: 'framing',
+			type: 'options',
+			displayOptions: {
+				hide: {
+					protocol: ['rtu'],
+				},
+			},
+			options: [
+				{
+					name: 'Modbus TCP (MBAP)',
+					value: 'mbap',
+					description: 'Standard Modbus TCP with MBAP header',
+				},
+				{
+					name: 'RTU Over TCP',
+					value: 'rtu',
+					description:
+						'Raw RTU frames with CRC tunnelled over TCP, as used by many serial gateways',
+				},
+				{
+					name: 'ASCII Over TCP',
+					value: 'ascii',
+					description: 'Modbus ASCII frames with LRC tunnelled over TCP',
+				},
+			],
+			default: 'mbap',
+		},
+		{
+			displayName: 'Serial Port',
+			name: 'serialPath',
+			type: 'string',
+			displayOptions: {
+				show: {
+					protocol: ['rtu'],
+				},
+			},
+			default: '/dev/ttyUSB0',
+			placeholder: '/dev/ttyUSB0',
+			description: 'Path of the serial device (e.g. /dev/ttyUSB0 or COM3)',
+		},
+		{
+			displayName: 'Baud Rate',
+			name: 'baudRate',
+			type: 'options',
+			displayOptions: {
+				show: {
+					protocol: ['rtu'],
+				},
+			},
+			options: [
+				{ name: '1200', value: 1200 },
+				{ name: '2400', value: 2400 },
+				{ name: '4800', value: 4800 },
+				{ name: '9600', value: 9600 },
+				{ name: '19200', value: 19200 },
+				{ name: '38400', value: 38400 },
+				{ name: '57600', value: 57600 },
+				{ name: '115200', value: 115200 },
+			],
+			default: 9600,
+		},
+		{
+			displayName: 'Parity',
+			name: 'parity',
+			type: 'options',
+			displayOptions: {
+				show: {
+					protocol: ['rtu'],
+				},
+			},
+			options: [
+				{ name: 'None', value: 'none' },
+				{ name: 'Even', value: 'even' },
+				{ name: 'Odd', value: 'odd' },
+				{ name: 'Mark', value: 'mark' },
+				{ name: 'Space', value: 'space' },
+			],
+			default: 'none',
+		},
+		{
+			displayName: 'Data Bits',
+			name: 'dataBits',
+			type: 'options',
+			displayOptions: {
+				show: {
+					protocol: ['rtu'],
+				},
+			},
+			options: [
+				{ name: '7', value: 7 },
+				{ name: '8', value: 8 },
+			],
+			default: 8,
+		},
+		{
+			displayName: 'Stop Bits',
+			name: 'stopBits',
+			type: 'options',
+			displayOptions: {
+				show: {
+					protocol: ['rtu'],
+				},
+			},
+			options: [
+				{ name: '1', value: 1 },
+				{ name: '2', value: 2 },
+			],
+			default: 1,
+		},
 		{
 			displayName: 'Unit ID',
 			name: 'unitId',
@@ -43,5 +168,113 @@ export class ModbusApi implements ICredentialType {
 				minValue: 0,
 			},
 		},
+		{
+			displayName: 'Connect Timeout',
+			name: 'timeout',
+			type: 'number',
+			default: 5000,
+			description: 'How long in milliseconds to wait for the connection to be established',
+			typeOptions: {
+				minValue: 0,
+			},
+		},
+		{
+			displayName: 'Response Timeout',
+			name: 'responseTimeout',
+			type: 'number',
+			default: 5000,
+			description: 'How long in milliseconds to wait for the device to answer a request',
+			typeOptions: {
+				minValue: 1,
+			},
+		},
+		{
+			displayName: 'Retries',
+			name: 'retries',
+			type: 'number',
+			default: 0,
+			description: 'How many times to repeat a failed read or write before giving up',
+			typeOptions: {
+				minValue: 0,
+				maxValue: 10,
+			},
+		},
+		{
+			displayName: 'Retry Backoff',
+			name: 'retryBackoff',
+			type: 'options',
+			options: [
+				{
+					name: 'Fixed',
+					value: 'fixed',
+					description: 'Wait the retry delay before every retry',
+				},
+				{
+					name: 'Exponential',
+					value: 'exponential',
+					description: 'Double the wait after every failed retry',
+				},
+			],
+			default: 'exponential',
+		},
+		{
+			displayName: 'Retry Delay',
+			name: 'retryDelay',
+			type: 'number',
+			default: 500,
+			description: 'How long in milliseconds to wait before the first retry',
+			typeOptions: {
+				minValue: 0,
+			},
+		},
+		{
+			displayName: 'Retry On',
+			name: 'retryOn',
+			type: 'multiOptions',
+			options: [
+				{
+					name: 'No Response (Timeout)',
+					value: 'timeout',
+				},
+				{
+					name: 'Checksum Error (CRC/LRC)',
+					value: 'checksum',
+				},
+				{
+					name: 'Exception 04 - Server Device Failure',
+					value: 'ServerDeviceFailure',
+				},
+				{
+					name: 'Exception 05 - Acknowledge',
+					value: 'Aknowledge',
+				},
+				{
+					name: 'Exception 06 - Server Device Busy',
+					value: 'ServerDeviceBusy',
+				},
+				{
+					name: 'Exception 0A - Gateway Path Unavailable',
+					value: 'GatewayPathUnavailable',
+				},
+				{
+					name: 'Exception 0B - Gateway Target Device Failed to Respond',
+					value: 'GatewayTargetDeviceFailedToRespond',
+				},
+			],
+			default: ['timeout', 'checksum'],
+			description:
+				'Which failures are worth retrying. Other errors fail the request straight away.',
+		},
+		{
+			displayName: 'Idle Timeout',
+			name: 'idleTimeout',
+			type: 'number',
+			default: 30000,
+			description:
+				'How long in milliseconds an unused connection stays open for reuse by later executions. Use 0 to close it as soon as it is no longer used.',
+			typeOptions: {
+				minValue: 0,
+			},
+		},
 	];
 }
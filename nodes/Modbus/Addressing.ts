@@ -0,0 +1,143 @@
+import { ApplicationError } from 'n8n-workflow';
+import type { ReadFunctionCode } from './ConnectionManager';
+
+/**
+ * How plain addresses are counted: 0 for PDU addresses as sent on the wire, 1 for the
+ * register numbers most vendor manuals list
+ */
+export type AddressBase = 0 | 1;
+
+/**
+ * Address base of nodes that leave it unset: version 1 nodes sent plain addresses as they
+ * are, later versions count them like the register numbers of device manuals
+ */
+export const defaultAddressBase = (typeVersion: number | undefined): AddressBase =>
+	(typeVersion ?? 1) >= 2 ? 1 : 0;
+
+/**
+ * How addresses are written: plain decimal or hex (0x) numbers counted from the address
+ * base, Modicon references such as 40001, or IEC references such as %MW100
+ */
+export type AddressNotation = 'number' | 'modicon' | 'iec';
+
+export interface ResolvedAddress {
+	/** PDU address as sent on the wire */
+	address: number;
+	/** Function code reading the table the reference points at, for Modicon and IEC references */
+	functionCode?: ReadFunctionCode;
+}
+
+const MAX_ADDRESS = 65535;
+
+/** Leading digit of Modicon references per table */
+const MODICON_TABLES: Record<string, ReadFunctionCode> = {
+	'0': 'FC1',
+	'1': 'FC2',
+	'3': 'FC4',
+	'4': 'FC3',
+};
+
+/** IEC 61131 style references: %M coils, %I inputs, %MW holding and %IW input registers */
+const IEC_TABLES: Record<string, ReadFunctionCode> = {
+	M: 'FC1',
+	I: 'FC2',
+	MW: 'FC3',
+	IW: 'FC4',
+};
+
+const TABLE_NAMES: Record<ReadFunctionCode, string> = {
+	FC1: 'coils',
+	FC2: 'discrete inputs',
+	FC3: 'holding registers',
+	FC4: 'input registers',
+};
+
+/**
+ * Resolve an address written in the given notation: a plain decimal or hex (0x) number,
+ * counted from the address base, or an absolute Modicon 5- or 6-digit (40001, 400001)
+ * or IEC (%MW100) reference. References also tell which table they point at.
+ */
+export const parseAddress = (
+	input: unknown,
+	base: AddressBase = 0,
+	notation: AddressNotation = 'number',
+): ResolvedAddress => {
+	const text = String(input ?? '').trim();
+
+	const check = (address: number): number => {
+		if (!Number.isInteger(address) || address < 0 || address > MAX_ADDRESS) {
+			throw new ApplicationError(
+				`Address ${text} is out of range. PDU addresses go from 0 to ${MAX_ADDRESS}.`,
+			);
+		}
+		return address;
+	};
+
+	if (notation === 'iec') {
+		const iec = /^%(MW|IW|M|I)(\d+)$/i.exec(text);
+		if (!iec) {
+			throw new ApplicationError(
+				`Invalid IEC reference "${text}". Use %M or %I for coils and discrete inputs, or %MW or %IW for holding and input registers, followed by the address, e.g. %MW100.`,
+			);
+		}
+		return { address: check(Number(iec[2])), functionCode: IEC_TABLES[iec[1].toUpperCase()] };
+	}
+
+	if (notation === 'modicon') {
+		if (!/^[0134]\d{4,5}$/.test(text)) {
+			throw new ApplicationError(
+				`Invalid Modicon reference "${text}". Use 5 or 6 digits starting with 0 (coils), 1 (discrete inputs), 3 (input registers) or 4 (holding registers), e.g. 40001.`,
+			);
+		}
+		const register = Number(text.slice(1));
+		if (register < 1) {
+			throw new ApplicationError(`Invalid reference ${text}. Register numbers start at 1.`);
+		}
+		return { address: check(register - 1), functionCode: MODICON_TABLES[text[0]] };
+	}
+
+	// Numbers from older workflows and expressions are always plain addresses
+	if (typeof input === 'number') {
+		return { address: check(input - base) };
+	}
+
+	if (/^0x[0-9a-f]+$/i.test(text) || /^\d+$/.test(text)) {
+		return { address: check(Number(text) - base) };
+	}
+
+	throw new ApplicationError(
+		`Invalid address "${text}". Use a number or a hex number such as 0x10, or choose the Modicon or IEC address notation for references such as 40001 or %MW100.`,
+	);
+};
+
+/**
+ * The Modicon reference of a PDU address, 5 digits where possible and 6 beyond 9999
+ */
+export const toReference = (functionCode: string, address: number): string | undefined => {
+	const prefix = Object.keys(MODICON_TABLES).find((key) => MODICON_TABLES[key] === functionCode);
+	if (prefix === undefined) return undefined;
+
+	return prefix + String(address + 1).padStart(4, '0');
+};
+
+/**
+ * The function code reading the table a reference points at, or the selected one for
+ * plain addresses
+ */
+export const readFunctionCode = (
+	resolved: ResolvedAddress,
+	selected: ReadFunctionCode,
+): ReadFunctionCode => resolved.functionCode ?? selected;
+
+/**
+ * Fail when a reference points at another table than the one the function code accesses
+ */
+export const checkTable = (resolved: ResolvedAddress, table: ReadFunctionCode, usage: string) => {
+	if (resolved.functionCode && resolved.functionCode !== table) {
+		throw new ApplicationError(
+			`The address refers to ${TABLE_NAMES[resolved.functionCode]}, but ${usage} accesses ${
+				TABLE_NAMES[table]
+			}`,
+		);
+	}
+};
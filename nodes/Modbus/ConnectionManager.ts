@@ -0,0 +1,504 @@
+import type { TCPStream } from 'modbus-stream';
+import type { Duplex } from 'stream';
+import { ApplicationError } from 'n8n-workflow';
+import { ModbusChecksumError } from './Framing';
+import {
+	createClient,
+	modbusRequest,
+	type ModbusCallback,
+	type ModbusCredential,
+} from './GenericFunctions';
+
+/**
+ * A request was made on a connection that has been closed or lost
+ */
+export class ConnectionClosedError extends ApplicationError {}
+
+export interface RetryPolicy {
+	retries: number;
+	backoff: 'fixed' | 'exponential';
+	delay: number;
+	/** Error kinds worth retrying: 'timeout', 'checksum' or Modbus exception names */
+	retryOn: string[];
+	/** How long each attempt waits for its response, in milliseconds */
+	responseTimeout?: number;
+}
+
+export interface RequestResult<T> {
+	data: T;
+	attempts: number;
+}
+
+export type ReadFunctionCode = 'FC1' | 'FC2' | 'FC3' | 'FC4';
+
+/**
+ * Most coils/discrete inputs and registers one request may read according to the spec
+ */
+export const MAX_READ_BITS = 2000;
+export const MAX_READ_REGISTERS = 125;
+
+/**
+ * Most coils and registers one request may write according to the spec, FC23 leaving less
+ * room for the values as its request also carries the read
+ */
+export const MAX_WRITE_COILS = 1968;
+export const MAX_WRITE_REGISTERS = 123;
+export const MAX_READ_WRITE_REGISTERS = 121;
+
+export interface ChunkOptions {
+	/** Most values per request, capped at the protocol limit. 0 uses the protocol limit. */
+	chunkSize?: number;
+	/**
+	 * Send every chunk before the first response arrives instead of waiting for each
+	 * response. Only connections with MBAP framing can pipeline; others ignore it.
+	 */
+	pipeline?: boolean;
+}
+
+export interface FailedChunk {
+	address: number;
+	quantity: number;
+	error: string;
+}
+
+export interface ChunkedReadResult {
+	/** Raw values of every address: 0/1 for bits and buffers for registers, null where a chunk failed */
+	data: Array<number | boolean | Buffer | null>;
+	attempts: number;
+	chunks: number;
+	failedChunks: FailedChunk[];
+}
+
+export interface ReleaseOptions {
+	/** Close the connection right away when no one else is using it, instead of idling */
+	keepAlive?: boolean;
+}
+
+type SendRequest = (client: TCPStream, callback: ModbusCallback) => void;
+
+/**
+ * A device connection shared by every node execution and trigger using the same
+ * host/port/transport. Requests are serialized so that devices only ever see one
+ * outstanding request, unless a caller pipelines a batch of requests, and the
+ * connection closes itself once it has been idle.
+ */
+export class ModbusConnection {
+	closed = false;
+
+	private leases = 0;
+
+	private queue: Promise<unknown> = Promise.resolve();
+
+	private idleTimer?: NodeJS.Timeout;
+
+	private readonly transport: { stream: Duplex; retry: number; clearSend: () => void };
+
+	constructor(
+		readonly key: string,
+		readonly client: TCPStream,
+		private readonly idleTimeout: number,
+		/** Whether responses carry a transaction ID, so that several requests may be outstanding */
+		readonly pipelining = false,
+		/** Line settings of a serial port, which every holder of the connection must share */
+		readonly lineSettings?: string,
+	) {
+		this.transport = (client as unknown as { transport: ModbusConnection['transport'] }).transport;
+		const socket = this.transport.stream;
+
+		// Without a listener, socket errors would be thrown as uncaught exceptions
+		client.on('error', () => {});
+		client.on('close', () => this.destroy());
+		socket.on('close', () => this.destroy());
+	}
+
+	/**
+	 * Send one request once all requests queued before it have completed, retrying
+	 * failed attempts according to the retry policy
+	 */
+	async request<T = any>(send: SendRequest, policy: RetryPolicy): Promise<RequestResult<T>> {
+		return this.enqueue(async () => this.attempt<T>(send, policy));
+	}
+
+	/**
+	 * Send a batch of requests once all requests queued before it have completed. With
+	 * pipelining, every request is written before the first response arrives and the
+	 * responses are matched by transaction ID; otherwise they are sent one after another.
+	 */
+	async requestAll<T = any>(
+		sends: SendRequest[],
+		policy: RetryPolicy,
+	): Promise<Array<PromiseSettledResult<RequestResult<T>>>> {
+		return this.enqueue(async () => {
+			if (this.pipelining) {
+				return Promise.allSettled(sends.map(async (send) => this.attempt<T>(send, policy)));
+			}
+
+			const results: Array<PromiseSettledResult<RequestResult<T>>> = [];
+			for (const send of sends) {
+				try {
+					results.push({ status: 'fulfilled', value: await this.attempt<T>(send, policy) });
+				} catch (reason) {
+					results.push({ status: 'rejected', reason });
+				}
+			}
+			return results;
+		});
+	}
+
+	acquire() {
+		this.leases++;
+		clearTimeout(this.idleTimer);
+		this.idleTimer = undefined;
+	}
+
+	/**
+	 * Give back one lease. The last holder decides how long the connection idles.
+	 */
+	release({ keepAlive = true }: ReleaseOptions = {}, idleTimeout = this.idleTimeout) {
+		this.leases = Math.max(0, this.leases - 1);
+		if (this.leases > 0 || this.closed) return;
+
+		if (!keepAlive || idleTimeout <= 0) {
+			this.destroy();
+			return;
+		}
+
+		this.idleTimer = setTimeout(() => this.destroy(), idleTimeout);
+	}
+
+	private async enqueue<R>(task: () => Promise<R>): Promise<R> {
+		const result = this.queue.then(task);
+		this.queue = result.catch(() => undefined);
+
+		return result;
+	}
+
+	/**
+	 * Send one request, retrying failed attempts according to the retry policy
+	 */
+	private async attempt<T>(send: SendRequest, policy: RetryPolicy): Promise<RequestResult<T>> {
+		for (let attempt = 1; ; attempt++) {
+			if (this.closed) {
+				throw new ConnectionClosedError(`Connection to ${this.key} is closed`);
+			}
+
+			// Holders of a shared serial line may wait for responses for different times
+			if (policy.responseTimeout !== undefined) {
+				this.transport.retry = policy.responseTimeout;
+			}
+
+			try {
+				const data = await modbusRequest<T>((callback) => send(this.client, callback));
+				return { data, attempts: attempt };
+			} catch (error) {
+				if (attempt > policy.retries || !policy.retryOn.includes(errorKind(error))) {
+					if (attempt > 1) {
+						error.message += ` (after ${attempt} attempts)`;
+					}
+					throw error;
+				}
+
+				await sleep(retryDelay(policy, attempt));
+
+				// Whatever arrived of the failed response must not prefix the retry's response
+				this.transport.clearSend();
+			}
+		}
+	}
+
+	destroy() {
+		if (this.closed) return;
+
+		this.closed = true;
+		clearTimeout(this.idleTimer);
+
+		if (connections.get(this.key) === this) {
+			connections.delete(this.key);
+		}
+
+		this.client.close(() => {});
+	}
+}
+
+const sleep = async (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const retryDelay = ({ backoff, delay }: RetryPolicy, attempt: number) =>
+	backoff === 'exponential' ? delay * 2 ** (attempt - 1) : delay;
+
+/**
+ * Classify a failed request: modbus-stream reports its own response timeout as a
+ * GatewayTargetDeviceFailedToRespond error carrying a numeric code, while exception
+ * responses from the device only carry the exception name
+ */
+const errorKind = (error: Error & { code?: unknown }): string => {
+	if (error instanceof ModbusChecksumError) return 'checksum';
+	if (error.message === 'GatewayTargetDeviceFailedToRespond' && error.code !== undefined) {
+		return 'timeout';
+	}
+
+	return error.message;
+};
+
+/**
+ * Whether a failed request points at a broken link rather than at the request itself,
+ * so that the connection should be dropped and re-established. A response timeout only
+ * tells that one device did not answer: other devices on the same serial bus or behind
+ * the same gateway may still be reached over the connection.
+ */
+export const isConnectionError = (error: Error & { code?: unknown }): boolean =>
+	error instanceof ConnectionClosedError || error.code === 'ECLOSED';
+
+/**
+ * One holder's share of a connection. Requests sent through a lease wait for responses
+ * and are retried according to the credentials it was acquired for, whoever else shares
+ * the connection.
+ */
+export class ConnectionLease {
+	private released = false;
+
+	constructor(
+		readonly connection: ModbusConnection,
+		private readonly retryPolicy: RetryPolicy,
+		private readonly idleTimeout?: number,
+	) {}
+
+	get closed() {
+		return this.connection.closed;
+	}
+
+	get pipelining() {
+		return this.connection.pipelining;
+	}
+
+	async request<T = any>(send: SendRequest): Promise<RequestResult<T>> {
+		return this.connection.request<T>(send, this.retryPolicy);
+	}
+
+	async requestAll<T = any>(
+		sends: SendRequest[],
+	): Promise<Array<PromiseSettledResult<RequestResult<T>>>> {
+		return this.connection.requestAll<T>(sends, this.retryPolicy);
+	}
+
+	/**
+	 * Give the lease back. Releasing it again has no effect.
+	 */
+	release(options?: ReleaseOptions) {
+		if (this.released) return;
+
+		this.released = true;
+		this.connection.release(options, this.idleTimeout);
+	}
+
+	destroy() {
+		this.connection.destroy();
+	}
+}
+
+/**
+ * Build one FC1-FC4 read request
+ */
+const readRequest = (
+	functionCode: ReadFunctionCode,
+	address: number,
+	quantity: number,
+	unitId: number,
+): SendRequest => {
+	const options = { address, quantity, extra: { unitId } };
+
+	switch (functionCode) {
+		case 'FC1':
+			return (client, callback) => client.readCoils(options, callback);
+		case 'FC2':
+			return (client, callback) => client.readDiscreteInputs(options, callback);
+		case 'FC3':
+			return (client, callback) => client.readHoldingRegisters(options, callback);
+		case 'FC4':
+			return (client, callback) => client.readInputRegisters(options, callback);
+		default:
+			throw new ApplicationError('Invalid function code: ' + functionCode);
+	}
+};
+
+/**
+ * Send one FC1-FC4 read request
+ */
+export const readRange = async (
+	connection: ConnectionLease,
+	functionCode: ReadFunctionCode,
+	address: number,
+	quantity: number,
+	unitId: number,
+): Promise<RequestResult<any>> =>
+	connection.request(readRequest(functionCode, address, quantity, unitId));
+
+/**
+ * Read any number of values, split into requests the device accepts. Chunks that fail
+ * are reported and leave nulls in the data; when every chunk fails the first error is
+ * thrown, so a single request fails exactly like an unchunked read.
+ */
+export const readChunked = async (
+	connection: ConnectionLease,
+	functionCode: ReadFunctionCode,
+	address: number,
+	quantity: number,
+	unitId: number,
+	{ chunkSize = 0, pipeline = false }: ChunkOptions = {},
+): Promise<ChunkedReadResult> => {
+	if (!Number.isInteger(quantity) || quantity < 1) {
+		throw new ApplicationError(`Quantity must be a whole number of at least 1, got ${quantity}`);
+	}
+
+	const limit =
+		functionCode === 'FC1' || functionCode === 'FC2' ? MAX_READ_BITS : MAX_READ_REGISTERS;
+	const size = chunkSize > 0 ? Math.min(chunkSize, limit) : limit;
+
+	const chunks: Array<{ address: number; quantity: number }> = [];
+	for (let offset = 0; offset < quantity; offset += size) {
+		chunks.push({ address: address + offset, quantity: Math.min(size, quantity - offset) });
+	}
+
+	type Outcome = { result: RequestResult<any> } | { error: Error };
+
+	const readChunk = async (chunk: (typeof chunks)[number]): Promise<Outcome> => {
+		try {
+			return {
+				result: await readRange(connection, functionCode, chunk.address, chunk.quantity, unitId),
+			};
+		} catch (error) {
+			return { error };
+		}
+	};
+
+	let outcomes: Outcome[];
+
+	if (pipeline && connection.pipelining) {
+		const results = await connection.requestAll(
+			chunks.map((chunk) => readRequest(functionCode, chunk.address, chunk.quantity, unitId)),
+		);
+		outcomes = results.map((result) =>
+			result.status === 'fulfilled' ? { result: result.value } : { error: result.reason },
+		);
+	} else {
+		outcomes = [];
+		for (const chunk of chunks) {
+			const outcome = await readChunk(chunk);
+			outcomes.push(outcome);
+
+			// The remaining chunks would only wait for the same broken link
+			if ('error' in outcome && isConnectionError(outcome.error)) {
+				while (outcomes.length < chunks.length) outcomes.push(outcome);
+				break;
+			}
+		}
+	}
+
+	const failures = outcomes.flatMap((outcome) => ('error' in outcome ? [outcome.error] : []));
+	if (failures.length === chunks.length) {
+		throw failures[0];
+	}
+
+	const data: ChunkedReadResult['data'] = [];
+	const failedChunks: FailedChunk[] = [];
+	let attempts = 0;
+
+	outcomes.forEach((outcome, index) => {
+		const chunk = chunks[index];
+
+		if ('error' in outcome) {
+			failedChunks.push({ ...chunk, error: outcome.error.message });
+			data.push(...new Array(chunk.quantity).fill(null));
+			return;
+		}
+
+		// Coil responses are padded to whole bytes
+		data.push(...(outcome.result.data?.response.data ?? []).slice(0, chunk.quantity));
+		attempts += outcome.result.attempts;
+	});
+
+	return { data, attempts, chunks: chunks.length, failedChunks };
+};
+
+export const getRetryPolicy = (credentials: ModbusCredential): RetryPolicy => ({
+	retries: credentials.retries ?? 0,
+	backoff: credentials.retryBackoff ?? 'exponential',
+	delay: credentials.retryDelay ?? 500,
+	retryOn: credentials.retryOn ?? ['timeout', 'checksum'],
+	responseTimeout: credentials.responseTimeout ?? credentials.timeout ?? 5000,
+});
+
+const connections = new Map<string, ModbusConnection>();
+
+const connecting = new Map<string, Promise<ModbusConnection>>();
+
+/**
+ * Identify a connection by its device alone: a TCP device by its host, port and framing,
+ * a serial line by its device path, which can only be opened once anyway. Response and
+ * idle timeouts as well as retry settings are applied per lease and are not part of the key.
+ */
+export const connectionKey = (credentials: ModbusCredential): string => {
+	if (credentials.protocol === 'rtu') {
+		return `rtu:${credentials.serialPath}`;
+	}
+
+	return `${credentials.framing ?? 'mbap'}:${credentials.host}:${credentials.port}`;
+};
+
+/**
+ * Baud rate, parity, data and stop bits of a serial line
+ */
+const lineSettings = (credentials: ModbusCredential): string | undefined => {
+	if (credentials.protocol !== 'rtu') return undefined;
+
+	const { baudRate = 9600, parity = 'none', dataBits = 8, stopBits = 1 } = credentials;
+	return `${baudRate} baud, parity ${parity}, ${dataBits} data bits, ${stopBits} stop bits`;
+};
+
+/**
+ * Lease the shared connection for the credentials' device, connecting if needed.
+ * Every lease must be given back with `release()`.
+ */
+export const acquireConnection = async (
+	credentials: ModbusCredential,
+): Promise<ConnectionLease> => {
+	const key = connectionKey(credentials);
+	const settings = lineSettings(credentials);
+	let connection = connections.get(key);
+
+	if (!connection || connection.closed) {
+		let pending = connecting.get(key);
+
+		if (!pending) {
+			pending = createClient(credentials)
+				.then((client) => {
+					const created = new ModbusConnection(
+						key,
+						client,
+						credentials.idleTimeout ?? 30000,
+						credentials.protocol !== 'rtu' && (credentials.framing ?? 'mbap') === 'mbap',
+						settings,
+					);
+					connections.set(key, created);
+					return created;
+				})
+				.finally(() => connecting.delete(key));
+			connecting.set(key, pending);
+		}
+
+		connection = await pending;
+	}
+
+	if (credentials.protocol === 'rtu' && connection.lineSettings !== settings) {
+		throw new ApplicationError(
+			`Serial port ${credentials.serialPath} is already in use by another connection with other line settings (${connection.lineSettings})`,
+		);
+	}
+
+	connection.acquire();
+
+	return new ConnectionLease(
+		connection,
+		getRetryPolicy(credentials),
+		credentials.idleTimeout ?? 30000,
+	);
+};
@@ -1,16 +1,33 @@
+/**
+ * Order of the bytes A (most significant) to D of a 32-bit value across two registers:
+ * big endian ABCD, big endian byte swap BADC, little endian CDAB and little endian byte
+ * swap DCBA. 16-bit values only take the byte order within the register, 64-bit
+ * values extend the pattern to eight bytes (ABCDEFGH, BADCFEHG, GHEFCDAB, HGFEDCBA).
+ */
+export type ByteOrder = 'big_endian' | 'big_endian_byte_swap' | 'little_endian_byte_swap' | 'little_endian';
 
 export interface ConversionRule {
 	name: string;
 	startRegister: number;
-	dataType: 'int16' | 'uint16' | 'int32' | 'uint32' | 'float32' | 'scaled' | 'bitfield' | 'bcd';
-	byteOrder: 'big_endian' | 'little_endian';
+	dataType: 'int16' | 'uint16' | 'int32' | 'uint32' | 'float32' | 'int64' | 'uint64' | 'float64' | 'scaled' | 'bitfield' | 'bcd' | 'string';
+	byteOrder: ByteOrder;
+	/** Reverse the word order on top of the byte order, e.g. ABCD→CDAB and DCBA→BADC */
 	wordSwap?: boolean;
+	/** Return int64/uint64 values as numbers, which lose precision beyond 2^53, or as exact decimal strings */
+	int64Output?: 'number' | 'string';
 	scaleFactor?: number;
 	offset?: number;
 	decimalPlaces?: number;
 	bitMask?: number;
 	bitPosition?: number;
 	bitLength?: number;
+	/** Number of registers holding the text, two bytes each */
+	stringLength?: number;
+	/** Take the low byte of each register first */
+	stringByteSwap?: boolean;
+	/** Cut the text at the first NUL, trim surrounding spaces, or both */
+	stringTrim?: 'none' | 'nul' | 'spaces' | 'both';
+	stringEncoding?: 'ascii' | 'latin1' | 'utf8';
 	validation?: {
 		enabled: boolean;
 		min?: number;
@@ -30,6 +47,7 @@ export interface ConversionResult {
 	dataType: string;
 	valid: boolean;
 	error?: string;
+	warning?: string;
 	metadata?: {
 		scaleFactor?: number;
 		offset?: number;
@@ -38,6 +56,15 @@ export interface ConversionResult {
 	};
 }
 
+export interface EncodingRule {
+	dataType: 'int16' | 'uint16' | 'int32' | 'uint32' | 'float32' | 'int64' | 'uint64' | 'float64' | 'string' | 'bcd';
+	byteOrder: ByteOrder;
+	wordSwap?: boolean;
+	scaleFactor?: number;
+	offset?: number;
+	stringLength?: number;
+}
+
 export class DataConversionUtils {
 	/**
 	 * Convert raw Modbus register data based on conversion rules
@@ -59,7 +86,7 @@ export class DataConversionUtils {
 			};
 
 			// Validate register availability
-			const requiredRegisters = this.getRequiredRegisters(rule.dataType);
+			const requiredRegisters = this.getRequiredRegisters(rule.dataType, rule.stringLength);
 			if (registers.length < rule.startRegister + requiredRegisters) {
 				result.error = `Not enough registers available. Required: ${requiredRegisters}, Available: ${registers.length - rule.startRegister}`;
 				return result;
@@ -86,15 +113,34 @@ export class DataConversionUtils {
 				case 'float32':
 					result.value = this.convertFloat32(dataRegisters, rule.byteOrder, rule.wordSwap);
 					break;
+				case 'int64':
+				case 'uint64': {
+					const value = this.convertInt64(dataRegisters, rule.byteOrder, rule.wordSwap, rule.dataType === 'int64');
+					if (rule.int64Output === 'string') {
+						result.value = value.toString();
+					} else {
+						result.value = Number(value);
+						if (value > BigInt(Number.MAX_SAFE_INTEGER) || value < BigInt(Number.MIN_SAFE_INTEGER)) {
+							result.warning = `Value ${value} is beyond the safe integer range and was rounded to ${result.value}. Use string output for exact values.`;
+						}
+					}
+					break;
+				}
+				case 'float64':
+					result.value = this.convertFloat64(dataRegisters, rule.byteOrder, rule.wordSwap);
+					break;
 				case 'scaled':
-					result.value = this.convertScaled(dataRegisters[0], rule);
+					result.value = this.convertScaled(this.orderWords(dataRegisters, rule.byteOrder)[0], rule);
 					break;
 				case 'bitfield':
-					result.value = this.convertBitfield(dataRegisters[0], rule);
+					result.value = this.convertBitfield(this.orderWords(dataRegisters, rule.byteOrder)[0], rule);
 					break;
 				case 'bcd':
 					result.value = this.convertBCD(dataRegisters[0], rule.byteOrder);
 					break;
+				case 'string':
+					result.value = this.convertString(dataRegisters, rule);
+					break;
 				default:
 					result.error = `Unsupported data type: ${rule.dataType}`;
 					return result;
@@ -112,7 +158,11 @@ export class DataConversionUtils {
 
 			// Validate result
 			if (rule.validation?.enabled) {
-				const validation = this.validateValue(result.value, rule.validation);
+				// Exact 64-bit strings are checked against the limits as numbers
+				const validation = this.validateValue(
+					rule.dataType === 'int64' || rule.dataType === 'uint64' ? Number(result.value) : result.value,
+					rule.validation,
+				);
 				result.valid = validation.valid;
 				if (!validation.valid) {
 					result.error = validation.error;
@@ -140,7 +190,7 @@ export class DataConversionUtils {
 	/**
 	 * Get number of registers required for a data type
 	 */
-	private static getRequiredRegisters(dataType: string): number {
+	static getRequiredRegisters(dataType: string, stringLength?: number): number {
 		switch (dataType) {
 			case 'int16':
 			case 'uint16':
@@ -152,6 +202,12 @@ export class DataConversionUtils {
 			case 'uint32':
 			case 'float32':
 				return 2;
+			case 'int64':
+			case 'uint64':
+			case 'float64':
+				return 4;
+			case 'string':
+				return stringLength || 1;
 			default:
 				return 1;
 		}
@@ -160,85 +216,90 @@ export class DataConversionUtils {
 	/**
 	 * Convert single register to signed 16-bit integer
 	 */
-	private static convertInt16(register: number, byteOrder: string): number {
-		// Convert unsigned 16-bit to signed 16-bit
-		if (register > 32767) {
-			return register - 65536;
-		}
-		return register;
+	private static convertInt16(register: number, byteOrder: ByteOrder): number {
+		return this.wordsView([register], byteOrder).getInt16(0, false);
 	}
 
 	/**
 	 * Convert single register to unsigned 16-bit integer
 	 */
-	private static convertUint16(register: number, byteOrder: string): number {
-		return register & 0xFFFF;
+	private static convertUint16(register: number, byteOrder: ByteOrder): number {
+		return this.wordsView([register], byteOrder).getUint16(0, false);
 	}
 
 	/**
 	 * Convert two registers to signed 32-bit integer
 	 */
-	private static convertInt32(registers: number[], byteOrder: string, wordSwap: boolean = false): number {
-		// Apply word swap if requested
-		const reg0 = wordSwap ? registers[1] : registers[0];
-		const reg1 = wordSwap ? registers[0] : registers[1];
-
-		let value: number;
-		
-		if (byteOrder === 'big_endian') {
-			// High register first, then low register
-			// Mask reg1 to ensure it's treated as unsigned 16-bit
-			value = (reg0 << 16) | (reg1 & 0xFFFF);
-		} else {
-			// Little endian: low register first, then high register
-			// Mask reg0 to ensure it's treated as unsigned 16-bit
-			value = (reg1 << 16) | (reg0 & 0xFFFF);
-		}
-
-		// Convert to signed 32-bit
-		if (value > 2147483647) {
-			return value - 4294967296;
-		}
-		return value;
+	private static convertInt32(registers: number[], byteOrder: ByteOrder, wordSwap: boolean = false): number {
+		return this.wordsView(registers, byteOrder, wordSwap).getInt32(0, false);
 	}
 
 	/**
 	 * Convert two registers to unsigned 32-bit integer
 	 */
-	private static convertUint32(registers: number[], byteOrder: string, wordSwap: boolean = false): number {
-		// Apply word swap if requested
-		const reg0 = wordSwap ? registers[1] : registers[0];
-		const reg1 = wordSwap ? registers[0] : registers[1];
-
-		if (byteOrder === 'big_endian') {
-			// Mask reg1 to ensure it's treated as unsigned 16-bit
-			return ((reg0 << 16) | (reg1 & 0xFFFF)) >>> 0;
-		} else {
-			// Mask reg0 to ensure it's treated as unsigned 16-bit
-			return ((reg1 << 16) | (reg0 & 0xFFFF)) >>> 0;
-		}
+	private static convertUint32(registers: number[], byteOrder: ByteOrder, wordSwap: boolean = false): number {
+		return this.wordsView(registers, byteOrder, wordSwap).getUint32(0, false);
 	}
 
 	/**
 	 * Convert two registers to IEEE 754 32-bit float
 	 */
-	private static convertFloat32(registers: number[], byteOrder: string, wordSwap: boolean = false): number {
-		const buffer = new ArrayBuffer(4);
-		const view = new DataView(buffer);
+	private static convertFloat32(registers: number[], byteOrder: ByteOrder, wordSwap: boolean = false): number {
+		return this.wordsView(registers, byteOrder, wordSwap).getFloat32(0, false);
+	}
 
-		// Apply word swap if requested
-		const reg0 = wordSwap ? registers[1] : registers[0];
-		const reg1 = wordSwap ? registers[0] : registers[1];
+	/**
+	 * Convert four registers to a signed or unsigned 64-bit integer
+	 */
+	private static convertInt64(registers: number[], byteOrder: ByteOrder, wordSwap: boolean = false, signed: boolean = true): bigint {
+		const view = this.wordsView(registers, byteOrder, wordSwap);
+		return signed ? view.getBigInt64(0, false) : view.getBigUint64(0, false);
+	}
 
-		if (byteOrder === 'big_endian') {
-			view.setUint16(0, reg0, false);
-			view.setUint16(2, reg1, false);
-		} else {
-			view.setUint16(0, reg1, false);
-			view.setUint16(2, reg0, false);
+	/**
+	 * Convert four registers to IEEE 754 64-bit float
+	 */
+	private static convertFloat64(registers: number[], byteOrder: ByteOrder, wordSwap: boolean = false): number {
+		return this.wordsView(registers, byteOrder, wordSwap).getFloat64(0, false);
+	}
+
+	/**
+	 * Put registers in device order into a big endian view, most significant byte first.
+	 * Reordering is its own inverse, so the words the encoder arranges are restored.
+	 */
+	private static wordsView(registers: number[], byteOrder: ByteOrder, wordSwap: boolean = false): DataView {
+		const words = this.orderWords(registers, byteOrder, wordSwap);
+		const view = new DataView(new ArrayBuffer(words.length * 2));
+
+		words.forEach((word, index) => view.setUint16(index * 2, word & 0xFFFF, false));
+
+		return view;
+	}
+
+	/**
+	 * Decode text packed two bytes per register, first character in the high byte unless
+	 * the bytes are swapped
+	 */
+	private static convertString(registers: number[], rule: ConversionRule): string {
+		const words = this.orderWords(registers, rule.stringByteSwap ? 'big_endian_byte_swap' : 'big_endian');
+		const bytes = Buffer.alloc(words.length * 2);
+
+		words.forEach((word, index) => bytes.writeUInt16BE(word & 0xFFFF, index * 2));
+
+		let text = bytes.toString(rule.stringEncoding ?? 'ascii');
+		const trim = rule.stringTrim ?? 'both';
+
+		if (trim === 'nul' || trim === 'both') {
+			const end = text.indexOf('\0');
+			if (end !== -1) {
+				text = text.slice(0, end);
+			}
+		}
+		if (trim === 'spaces' || trim === 'both') {
+			text = text.trim();
 		}
 
-		return view.getFloat32(0, false);
+		return text;
 	}
 
 	/**
@@ -287,7 +348,8 @@ export class DataConversionUtils {
 	/**
 	 * Convert BCD to decimal
 	 */
-	private static convertBCD(register: number, byteOrder: string): number {
+	private static convertBCD(register: number, byteOrder: ByteOrder): number {
+		register = this.orderWords([register], byteOrder)[0];
 		const high = (register >> 8) & 0xFF;
 		const low = register & 0xFF;
 		
@@ -360,6 +422,190 @@ export class DataConversionUtils {
 		return { valid: true };
 	}
 
+	/**
+	 * Encode an engineering value into raw Modbus register words, the inverse of convertData
+	 */
+	static encodeData(value: number | string, rule: EncodingRule): number[] {
+		if (rule.dataType === 'string') {
+			return this.encodeString(String(value), rule.stringLength);
+		}
+
+		if (rule.dataType === 'int64' || rule.dataType === 'uint64') {
+			return this.encodeInt64(value, rule);
+		}
+
+		let raw = typeof value === 'number' ? value : Number(value);
+		if (typeof value === 'string' && value.trim() === '') {
+			raw = NaN;
+		}
+		if (isNaN(raw) && rule.dataType !== 'float32' && rule.dataType !== 'float64') {
+			throw new Error(`Value ${value} is not a number`);
+		}
+
+		// Undo offset and scaling: engineering = raw * scaleFactor + offset
+		if (rule.offset !== undefined) {
+			raw -= rule.offset;
+		}
+		if (rule.scaleFactor !== undefined && rule.scaleFactor !== 0) {
+			raw /= rule.scaleFactor;
+		}
+
+		switch (rule.dataType) {
+			case 'int16':
+				return this.orderWords([this.checkRange(Math.round(raw), -32768, 32767, rule.dataType) & 0xFFFF], rule.byteOrder);
+			case 'uint16':
+				return this.orderWords([this.checkRange(Math.round(raw), 0, 65535, rule.dataType)], rule.byteOrder);
+			case 'bcd':
+				return this.orderWords([this.encodeBCD(this.checkRange(Math.round(raw), 0, 9999, rule.dataType))], rule.byteOrder);
+			case 'int32':
+			case 'uint32': {
+				const integer =
+					rule.dataType === 'int32'
+						? this.checkRange(Math.round(raw), -2147483648, 2147483647, rule.dataType)
+						: this.checkRange(Math.round(raw), 0, 4294967295, rule.dataType);
+				const unsigned = integer >>> 0;
+				return this.orderWords([unsigned >>> 16, unsigned & 0xFFFF], rule.byteOrder, rule.wordSwap);
+			}
+			case 'float32': {
+				const view = new DataView(new ArrayBuffer(4));
+				view.setFloat32(0, raw, false);
+				return this.orderWords([view.getUint16(0), view.getUint16(2)], rule.byteOrder, rule.wordSwap);
+			}
+			case 'float64': {
+				const view = new DataView(new ArrayBuffer(8));
+				view.setFloat64(0, raw, false);
+				return this.orderWords(
+					[view.getUint16(0), view.getUint16(2), view.getUint16(4), view.getUint16(6)],
+					rule.byteOrder,
+					rule.wordSwap,
+				);
+			}
+			default:
+				throw new Error(`Unsupported data type for encoding: ${rule.dataType}`);
+		}
+	}
+
+	/**
+	 * Encode a 64-bit integer. Decimal strings are encoded exactly, numbers only up to 2^53.
+	 */
+	private static encodeInt64(value: number | string, rule: EncodingRule): number[] {
+		const text = String(value).trim();
+		if (!/^-?\d+(\.\d+)?(e[+-]?\d+)?$/i.test(text)) {
+			throw new Error(`Value ${value} is not a number`);
+		}
+
+		let raw: bigint;
+		const scaled = (rule.offset ?? 0) !== 0 || (rule.scaleFactor ?? 1) !== 1;
+		if (scaled || !/^-?\d+$/.test(text)) {
+			// Offset and scaling need floating point math
+			let number = Number(text) - (rule.offset ?? 0);
+			if (rule.scaleFactor !== undefined && rule.scaleFactor !== 0) {
+				number /= rule.scaleFactor;
+			}
+			raw = BigInt(Math.round(number));
+		} else {
+			raw = BigInt(text);
+		}
+
+		const [min, max] = rule.dataType === 'int64'
+			? [-(BigInt(2) ** BigInt(63)), BigInt(2) ** BigInt(63) - BigInt(1)]
+			: [BigInt(0), BigInt(2) ** BigInt(64) - BigInt(1)];
+		if (raw < min || raw > max) {
+			throw new Error(`Value ${raw} is out of range for ${rule.dataType} (${min} to ${max})`);
+		}
+
+		const view = new DataView(new ArrayBuffer(8));
+		view.setBigUint64(0, BigInt.asUintN(64, raw), false);
+		return this.orderWords(
+			[view.getUint16(0), view.getUint16(2), view.getUint16(4), view.getUint16(6)],
+			rule.byteOrder,
+			rule.wordSwap,
+		);
+	}
+
+	/**
+	 * Arrange words given most significant first into the device's register order. Byte
+	 * swapped orders (BADC, DCBA) swap the bytes within each register, little endian
+	 * orders (CDAB, DCBA) reverse the registers and word swap toggles the reversal.
+	 * Both steps are their own inverse, so the same call turns device registers back
+	 * into most significant first words.
+	 *
+	 * Registers of 0x12345678 (int32), 0x1234 (int16) and 0x0102030405060708 (int64):
+	 *
+	 * | Byte order              | Word swap | int32         | int16  | int64                       |
+	 * |-------------------------|-----------|---------------|--------|-----------------------------|
+	 * | big_endian              | no        | 0x1234 0x5678 | 0x1234 | 0x0102 0x0304 0x0506 0x0708 |
+	 * | big_endian              | yes       | 0x5678 0x1234 | 0x1234 | 0x0708 0x0506 0x0304 0x0102 |
+	 * | big_endian_byte_swap    | no        | 0x3412 0x7856 | 0x3412 | 0x0201 0x0403 0x0605 0x0807 |
+	 * | big_endian_byte_swap    | yes       | 0x7856 0x3412 | 0x3412 | 0x0807 0x0605 0x0403 0x0201 |
+	 * | little_endian           | no        | 0x5678 0x1234 | 0x1234 | 0x0708 0x0506 0x0304 0x0102 |
+	 * | little_endian           | yes       | 0x1234 0x5678 | 0x1234 | 0x0102 0x0304 0x0506 0x0708 |
+	 * | little_endian_byte_swap | no        | 0x7856 0x3412 | 0x3412 | 0x0807 0x0605 0x0403 0x0201 |
+	 * | little_endian_byte_swap | yes       | 0x3412 0x7856 | 0x3412 | 0x0201 0x0403 0x0605 0x0807 |
+	 */
+	static orderWords(words: number[], byteOrder: ByteOrder, wordSwap: boolean = false): number[] {
+		const swapBytes = this.swapsBytes(byteOrder);
+		const reverseWords = (byteOrder === 'little_endian_byte_swap' || byteOrder === 'little_endian') !== wordSwap;
+
+		const ordered = words.map((word) => (swapBytes ? ((word & 0xFF) << 8) | ((word >> 8) & 0xFF) : word));
+
+		return reverseWords ? ordered.reverse() : ordered;
+	}
+
+	/**
+	 * Whether the byte order swaps the bytes within each register (BADC, DCBA)
+	 */
+	private static swapsBytes(byteOrder: ByteOrder): boolean {
+		return byteOrder === 'big_endian_byte_swap' || byteOrder === 'little_endian_byte_swap';
+	}
+
+	/**
+	 * Throw when an integer does not fit the target data type
+	 */
+	private static checkRange(value: number, min: number, max: number, dataType: string): number {
+		if (value < min || value > max) {
+			throw new Error(`Value ${value} is out of range for ${dataType} (${min} to ${max})`);
+		}
+		return value;
+	}
+
+	/**
+	 * Convert decimal (0-9999) to BCD
+	 */
+	private static encodeBCD(value: number): number {
+		let result = 0;
+
+		for (let shift = 0; shift < 16; shift += 4) {
+			result |= (value % 10) << shift;
+			value = Math.floor(value / 10);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Pack ASCII text two characters per register, first character in the high byte,
+	 * padded with NULs up to the requested register count
+	 */
+	private static encodeString(text: string, length?: number): number[] {
+		const bytes = Buffer.from(text, 'latin1');
+		const registerCount = length ?? Math.ceil(bytes.length / 2);
+
+		if (bytes.length > registerCount * 2) {
+			throw new Error(`Text of ${bytes.length} characters does not fit in ${registerCount} registers`);
+		}
+
+		const padded = Buffer.alloc(registerCount * 2);
+		bytes.copy(padded);
+
+		const registers: number[] = [];
+		for (let i = 0; i < registerCount; i++) {
+			registers.push(padded.readUInt16BE(i * 2));
+		}
+
+		return registers;
+	}
+
 	/**
 	 * Batch process multiple conversion rules
 	 */
@@ -0,0 +1,315 @@
+import modbus from 'modbus-stream';
+import type { Duplex } from 'stream';
+import { ApplicationError } from 'n8n-workflow';
+
+export type ModbusFraming = 'mbap' | 'rtu' | 'ascii';
+
+type RequestCallback = (err: Error | null, data?: unknown) => void;
+
+interface UnwrappedFrame {
+	slaveId: number;
+	pdu: Buffer;
+	stream: Duplex;
+	callback?: RequestCallback;
+}
+
+export interface FramedTransport {
+	stream: Duplex & { close?: (next?: () => void) => void };
+	closed: boolean;
+	callback: RequestCallback | null;
+	callbackSlaveId: number | null;
+	retryTimer: Record<string, NodeJS.Timeout>;
+	wrap: (pdu: Buffer, options?: { unitId?: number; slaveId?: number }, next?: unknown) => Buffer;
+	unwrap: (data: Buffer) => UnwrappedFrame | false;
+	pending?: () => boolean;
+	clearSend: () => void;
+	close: (next?: () => void) => void;
+}
+
+interface TransportModule {
+	prepare: (options: object) => (stream: Duplex) => FramedTransport;
+}
+
+export interface FramingOptions {
+	unitId: number;
+	responseTimeout: number;
+}
+
+/**
+ * A response frame that failed its CRC/LRC check or could not be decoded
+ */
+export class ModbusChecksumError extends ApplicationError {}
+
+const ASCII_START = 0x3a;
+const ASCII_END = Buffer.from('\r\n');
+
+/**
+ * CRC-16/MODBUS over the given bytes, as appended (low byte first) to RTU frames
+ */
+export const crc16 = (data: Buffer): number => {
+	let crc = 0xffff;
+
+	for (const byte of data) {
+		crc ^= byte;
+		for (let bit = 0; bit < 8; bit++) {
+			crc = crc & 0x0001 ? (crc >> 1) ^ 0xa001 : crc >> 1;
+		}
+	}
+
+	return crc;
+};
+
+/**
+ * Longitudinal redundancy check used by Modbus ASCII frames
+ */
+export const lrc = (data: Buffer): number => {
+	let sum = 0;
+
+	for (const byte of data) {
+		sum = (sum + byte) & 0xff;
+	}
+
+	return (0x100 - sum) & 0xff;
+};
+
+/**
+ * Length of the RTU response frame at the start of `frame` (address, PDU and CRC),
+ * derived from its function code. Returns undefined while the header is incomplete
+ * or when the function code does not allow the length to be known up front.
+ */
+export const rtuResponseLength = (frame: Buffer): number | undefined => {
+	if (frame.length < 2) return undefined;
+
+	const functionCode = frame[1];
+
+	// Exception responses: address, function code, exception code, CRC
+	if (functionCode & 0x80) return 5;
+
+	switch (functionCode) {
+		case 0x01:
+		case 0x02:
+		case 0x03:
+		case 0x04:
+		case 0x0c:
+		case 0x11:
+		case 0x14:
+		case 0x15:
+		case 0x17:
+			// Byte count prefixed responses
+			return frame.length < 3 ? undefined : 3 + frame[2] + 2;
+		case 0x05:
+		case 0x06:
+		case 0x08:
+		case 0x0b:
+		case 0x0f:
+		case 0x10:
+			return 8;
+		case 0x07:
+			return 5;
+		case 0x16:
+			return 10;
+		case 0x18:
+			return frame.length < 4 ? undefined : 4 + frame.readUInt16BE(2) + 2;
+		default:
+			return undefined;
+	}
+};
+
+const hex = (value: number) => '0x' + value.toString(16).toUpperCase().padStart(2, '0');
+
+/**
+ * Fail the request waiting on a transport, e.g. after a checksum error, instead of
+ * letting it run into the response timeout
+ */
+const failPending = (transport: FramedTransport, error: Error) => {
+	const callback = transport.callback;
+
+	clearTimeout(transport.retryTimer['-']);
+	delete transport.retryTimer['-'];
+	transport.callback = null;
+
+	if (callback) {
+		callback(error);
+	}
+};
+
+/**
+ * Accept a decoded frame only when it answers the pending request's slave
+ */
+const acceptFrame = (transport: FramedTransport, frame: UnwrappedFrame): UnwrappedFrame | false => {
+	if (typeof transport.callback === 'function') {
+		if (frame.slaveId !== transport.callbackSlaveId) return false;
+
+		frame.callback = transport.callback;
+		transport.callback = null;
+	}
+
+	return frame;
+};
+
+/**
+ * Adapt the serial oriented RTU and ASCII transports to the nodes: they address slaves
+ * by `slaveId` while the nodes pass the Modbus TCP `unitId` in each request, and they
+ * expect a serial port `close()` where a TCP socket only offers `end()`.
+ */
+const adaptTransport = (transport: FramedTransport, unitId: number) => {
+	const wrap = transport.wrap.bind(transport);
+
+	transport.wrap = (pdu, options = {}, next) => {
+		// Nothing received before a new request can belong to its response, e.g. the rest
+		// of a response that timed out, so start the new response on an empty buffer
+		if (typeof next === 'function') {
+			transport.clearSend();
+		}
+
+		return wrap(pdu, { slaveId: options.unitId ?? unitId, ...options }, next);
+	};
+
+	transport.close = (next) => {
+		transport.closed = true;
+
+		if (typeof transport.stream.close === 'function') {
+			transport.stream.close(next);
+		} else {
+			transport.stream.end(next);
+		}
+	};
+};
+
+/**
+ * RTU framing (address, PDU, CRC) on any byte stream, i.e. a serial line or a raw
+ * TCP socket to a serial gateway. Frames are delimited by the length implied by
+ * their function code and rejected with an error when the CRC does not match.
+ */
+export const rtuTransport = ({ unitId, responseTimeout }: FramingOptions) => {
+	const prepare = (modbus.transports.serial as unknown as TransportModule).prepare({
+		slaveId: unitId,
+		retry: responseTimeout,
+	});
+
+	return (stream: Duplex): FramedTransport => {
+		const transport = prepare(stream);
+		let buffer = Buffer.alloc(0);
+
+		adaptTransport(transport, unitId);
+
+		transport.clearSend = () => {
+			buffer = Buffer.alloc(0);
+		};
+
+		transport.pending = () => buffer.length > 0;
+
+		transport.unwrap = (data) => {
+			buffer = Buffer.concat([buffer, data]);
+
+			let length = rtuResponseLength(buffer);
+			if (length === undefined) {
+				// Unknown layout, so take whatever has arrived once it carries a valid CRC
+				if (
+					buffer.length < 4 ||
+					crc16(buffer.subarray(0, -2)) !== buffer.readUInt16LE(buffer.length - 2)
+				) {
+					return false;
+				}
+				length = buffer.length;
+			}
+
+			if (buffer.length < length) return false;
+
+			const frame = buffer.subarray(0, length);
+			buffer = buffer.subarray(length);
+
+			const received = frame.readUInt16LE(length - 2);
+			const expected = crc16(frame.subarray(0, length - 2));
+
+			if (received !== expected) {
+				// The rest of the buffer cannot be trusted to start on a frame boundary
+				buffer = Buffer.alloc(0);
+				failPending(
+					transport,
+					new ModbusChecksumError(
+						`Modbus RTU CRC check failed: expected ${hex(expected)}, received ${hex(received)}`,
+					),
+				);
+				return false;
+			}
+
+			return acceptFrame(transport, {
+				slaveId: frame[0],
+				pdu: frame.subarray(1, length - 2),
+				stream: transport.stream,
+			});
+		};
+
+		return transport;
+	};
+};
+
+/**
+ * Modbus ASCII framing (':' + hex encoded address, PDU and LRC + CRLF) on any byte
+ * stream. Malformed frames and LRC mismatches fail the pending request.
+ */
+export const asciiTransport = ({ unitId, responseTimeout }: FramingOptions) => {
+	const prepare = (modbus.transports.ascii as unknown as TransportModule).prepare({
+		retry: responseTimeout,
+	});
+
+	return (stream: Duplex): FramedTransport => {
+		const transport = prepare(stream);
+		let buffer = Buffer.alloc(0);
+
+		adaptTransport(transport, unitId);
+
+		transport.clearSend = () => {
+			buffer = Buffer.alloc(0);
+		};
+
+		transport.pending = () => buffer.includes(ASCII_END);
+
+		transport.unwrap = (data) => {
+			buffer = Buffer.concat([buffer, data]);
+
+			const start = buffer.indexOf(ASCII_START);
+			if (start === -1) {
+				buffer = Buffer.alloc(0);
+				return false;
+			}
+
+			const end = buffer.indexOf(ASCII_END, start);
+			if (end === -1) {
+				buffer = buffer.subarray(start);
+				return false;
+			}
+
+			const text = buffer.subarray(start + 1, end).toString('latin1');
+			buffer = buffer.subarray(end + ASCII_END.length);
+
+			if (text.length < 6 || text.length % 2 !== 0 || !/^[0-9A-Fa-f]+$/.test(text)) {
+				failPending(transport, new ModbusChecksumError(`Malformed Modbus ASCII frame: ":${text}"`));
+				return false;
+			}
+
+			const frame = Buffer.from(text, 'hex');
+			const received = frame[frame.length - 1];
+			const expected = lrc(frame.subarray(0, -1));
+
+			if (received !== expected) {
+				failPending(
+					transport,
+					new ModbusChecksumError(
+						`Modbus ASCII LRC check failed: expected ${hex(expected)}, received ${hex(received)}`,
+					),
+				);
+				return false;
+			}
+
+			return acceptFrame(transport, {
+				slaveId: frame[0],
+				pdu: frame.subarray(1, -1),
+				stream: transport.stream,
+			});
+		};
+
+		return transport;
+	};
+};
@@ -1,26 +1,218 @@
 import modbus from 'modbus-stream';
-import { ApplicationError } from 'n8n-workflow';
+import { ApplicationError, type IDataObject } from 'n8n-workflow';
+import { asciiTransport, rtuTransport, type FramedTransport, type ModbusFraming } from './Framing';
 
 interface BaseModbusCredential {
-	host: string;
-	port: number;
 	timeout: number;
+	responseTimeout?: number;
 	unitId: number;
+	idleTimeout?: number;
+	retries?: number;
+	retryBackoff?: 'fixed' | 'exponential';
+	retryDelay?: number;
+	retryOn?: string[];
 }
 
-export type ModbusCredential = BaseModbusCredential;
+interface TcpModbusCredential extends BaseModbusCredential {
+	protocol?: 'tcp' | 'modbus';
+	host: string;
+	port: number;
+	framing?: ModbusFraming;
+}
 
-export const createClient = async (credentials: ModbusCredential): Promise<modbus.TCPStream> => {
-	const { host, port, timeout = 5000, unitId = 1 } = credentials;
+interface RtuModbusCredential extends BaseModbusCredential {
+	protocol: 'rtu';
+	serialPath: string;
+	baudRate: number;
+	parity: 'none' | 'even' | 'odd' | 'mark' | 'space';
+	dataBits: number;
+	stopBits: number;
+}
+
+export type ModbusCredential = TcpModbusCredential | RtuModbusCredential;
+
+const createTcpClient = async (credentials: TcpModbusCredential): Promise<modbus.TCPStream> => {
+	const { host, port, framing = 'mbap', timeout = 5000, unitId = 1 } = credentials;
+	const responseTimeout = credentials.responseTimeout ?? timeout;
 
 	return new Promise((resolve, reject) => {
-		modbus.tcp.connect(port, host, { debug: null, connectTimeout: timeout, unitId }, (err, client) => {
+		const onConnect = (err: Error | null, client: modbus.TCPStream) => {
 			if (err) {
 				reject(new ApplicationError(err.message));
 				return;
 			}
 
 			resolve(client);
+		};
+
+		if (framing === 'mbap') {
+			modbus.tcp.connect(
+				port,
+				host,
+				{ debug: null, connectTimeout: timeout, retry: responseTimeout, unitId },
+				onConnect,
+			);
+			return;
+		}
+
+		const transport =
+			framing === 'ascii'
+				? asciiTransport({ unitId, responseTimeout })
+				: rtuTransport({ unitId, responseTimeout });
+
+		modbus.drivers.tcp
+			.connect(port, host, { debug: null, connectTimeout: timeout })
+			.attach(transport, onConnect);
+	});
+};
+
+/**
+ * modbus-stream's request/response layer on top of any framed transport
+ */
+const ModbusStream = modbus.stream as unknown as new (
+	transport: FramedTransport,
+	options: { debug: null },
+) => modbus.TCPStream;
+
+const createRtuClient = async (credentials: RtuModbusCredential): Promise<modbus.TCPStream> => {
+	const {
+		serialPath,
+		baudRate = 9600,
+		parity = 'none',
+		dataBits = 8,
+		stopBits = 1,
+		timeout = 5000,
+		unitId = 1,
+	} = credentials;
+	const responseTimeout = credentials.responseTimeout ?? timeout;
+
+	let SerialPort: typeof import('serialport').SerialPort;
+	try {
+		// `serialport` is an optional dependency with native bindings, so load it lazily
+		({ SerialPort } = await import('serialport'));
+	} catch (error) {
+		throw new ApplicationError(
+			'Modbus RTU requires the "serialport" package, which could not be loaded: ' + error.message,
+		);
+	}
+
+	return new Promise((resolve, reject) => {
+		const port = new SerialPort({
+			path: serialPath,
+			baudRate,
+			parity,
+			dataBits: dataBits as 5 | 6 | 7 | 8,
+			stopBits: stopBits as 1 | 1.5 | 2,
+			autoOpen: false,
+		});
+
+		// Without a listener, port errors would be thrown as uncaught exceptions
+		port.on('error', () => {});
+
+		port.open((err) => {
+			if (err) {
+				reject(new ApplicationError(`Could not open serial port ${serialPath}: ${err.message}`));
+				return;
+			}
+
+			resolve(new ModbusStream(rtuTransport({ unitId, responseTimeout })(port), { debug: null }));
+		});
+	});
+};
+
+export const createClient = async (credentials: ModbusCredential): Promise<modbus.TCPStream> => {
+	if (credentials.protocol === 'rtu') {
+		return createRtuClient(credentials);
+	}
+
+	return createTcpClient(credentials);
+};
+
+/**
+ * How raw register words are output: as signed or unsigned numbers, as hex strings, as
+ * one base64 encoded byte buffer, or all of these
+ */
+export type RegisterFormat = 'int16' | 'uint16' | 'hex' | 'base64' | 'all';
+
+/**
+ * Format raw register words, given as signed or unsigned 16-bit numbers. With 'all',
+ * `data` keeps the signed values and the other formats are added next to it.
+ */
+export const formatRegisters = (
+	registers: Array<number | null>,
+	format: RegisterFormat = 'int16',
+): IDataObject => {
+	const uint16 = registers.map((value) => (value === null ? null : value & 0xffff));
+	const int16 = () => uint16.map((value) => (value === null ? null : (value << 16) >> 16));
+	const hex = () =>
+		uint16.map((value) =>
+			value === null ? null : '0x' + value.toString(16).toUpperCase().padStart(4, '0'),
+		);
+	// Registers of failed chunks have no bytes to offer and are zero filled
+	const base64 = () =>
+		Buffer.from(uint16.flatMap((value) => [(value ?? 0) >> 8, (value ?? 0) & 0xff])).toString(
+			'base64',
+		);
+
+	switch (format) {
+		case 'uint16':
+			return { data: uint16 };
+		case 'hex':
+			return { data: hex() };
+		case 'base64':
+			return { data: base64() };
+		case 'all':
+			return { data: int16(), uint16, hex: hex(), base64: base64() };
+		default:
+			return { data: int16() };
+	}
+};
+
+/**
+ * Registers from the output of a MODBUS read in any register format: the `uint16` array
+ * that 'all' adds, numbers, hex strings, or one base64 encoded byte buffer
+ */
+export const extractRegisters = (inputData: IDataObject): number[] | null => {
+	if (Array.isArray(inputData.uint16)) {
+		return inputData.uint16 as number[];
+	}
+	if (Array.isArray(inputData)) {
+		return inputData as number[];
+	}
+
+	for (const field of ['data', 'registers', 'values']) {
+		const value = inputData[field];
+
+		if (Array.isArray(value)) {
+			return value.map((register) =>
+				typeof register === 'string' ? Number(register) : (register as number),
+			);
+		}
+		if (typeof value === 'string' && value !== '') {
+			const bytes = Buffer.from(value, 'base64');
+			return Array.from({ length: bytes.length >> 1 }, (_, index) => bytes.readUInt16BE(index * 2));
+		}
+	}
+
+	return null;
+};
+
+export type ModbusCallback = (err: Error | null, data?: any) => void;
+
+/**
+ * Promisify a single callback style modbus-stream request
+ */
+export const modbusRequest = async <T = any>(
+	send: (callback: ModbusCallback) => void,
+): Promise<T> => {
+	return new Promise((resolve, reject) => {
+		send((err, data) => {
+			if (err) {
+				reject(err);
+				return;
+			}
+
+			resolve(data);
 		});
 	});
 };
@@ -5,8 +5,90 @@ import type {
 	INodeExecutionData,
 	IDataObject,
 } from 'n8n-workflow';
-import { NodeOperationError } from 'n8n-workflow';
-import { createClient, type ModbusCredential } from './GenericFunctions';
+import { ApplicationError, NodeOperationError } from 'n8n-workflow';
+import { DataConversionUtils, type ConversionRule, type EncodingRule } from './DataConversionUtils';
+import {
+	acquireConnection,
+	MAX_READ_WRITE_REGISTERS,
+	MAX_WRITE_COILS,
+	MAX_WRITE_REGISTERS,
+	readChunked,
+	readRange,
+	type ChunkedReadResult,
+	type ChunkOptions,
+	type ConnectionLease,
+	type ReadFunctionCode,
+	type RequestResult,
+} from './ConnectionManager';
+import { formatRegisters, type ModbusCredential, type RegisterFormat } from './GenericFunctions';
+import { getServer, type ServerTable } from './ServerManager';
+import {
+	checkTable,
+	defaultAddressBase,
+	parseAddress,
+	readFunctionCode,
+	toReference,
+	type AddressBase,
+	type AddressNotation,
+	type ResolvedAddress,
+} from './Addressing';
+
+interface Tag {
+	name: string;
+	functionCode: ReadFunctionCode;
+	address: number;
+	dataType: ConversionRule['dataType'];
+	byteOrder: ConversionRule['byteOrder'];
+	wordSwap?: boolean;
+	scaleFactor?: number;
+	offset?: number;
+	unit?: string;
+}
+
+interface TagOptions {
+	maxGap?: number;
+	maxBits?: number;
+	maxRegisters?: number;
+}
+
+/**
+ * One read request covering the addresses of one or more tags
+ */
+interface TagRequest {
+	functionCode: ReadFunctionCode;
+	address: number;
+	quantity: number;
+	tags: Tag[];
+}
+
+/** Output formats for holding and input register values */
+const REGISTER_FORMAT_OPTIONS = [
+	{
+		name: 'All Formats',
+		value: 'all',
+		description: 'Signed values in data, plus uint16, hex and base64 fields with the other formats',
+	},
+	{
+		name: 'Byte Buffer (Base64)',
+		value: 'base64',
+		description: 'All register bytes in device order as one base64 string',
+	},
+	{
+		name: 'Hex',
+		value: 'hex',
+		description: 'Hex strings such as 0xFFFF',
+	},
+	{
+		name: 'INT16 - Signed',
+		value: 'int16',
+		description: 'Numbers from -32768 to 32767',
+	},
+	{
+		name: 'UINT16 - Unsigned',
+		value: 'uint16',
+		description: 'Numbers from 0 to 65535',
+	},
+];
 
 export class Modbus implements INodeType {
 	description: INodeTypeDescription = {
@@ -14,7 +96,8 @@ export class Modbus implements INodeType {
 		name: 'modbus',
 		icon: 'file:modbus.svg',
 		group: ['input'],
-		version: 1,
+		version: [1, 2],
+		defaultVersion: 2,
 		description: 'Read and write to MODBUS devices',
 		eventTriggerDescription: '',
 		defaults: {
@@ -29,6 +112,11 @@ export class Modbus implements INodeType {
 			{
 				name: 'modbusApi',
 				required: true,
+				displayOptions: {
+					show: {
+						operation: ['read', 'write'],
+					},
+				},
 			},
 		],
 		properties: [
@@ -45,10 +133,48 @@ export class Modbus implements INodeType {
 						name: 'Write',
 						value: 'write',
 					},
+					{
+						name: 'Read Server Image',
+						value: 'serverRead',
+						action: 'Read from the server image',
+						description:
+							'Read the values held by a MODBUS Server Trigger running in the same n8n process',
+					},
+					{
+						name: 'Write Server Image',
+						value: 'serverWrite',
+						action: 'Write to the server image',
+						description:
+							'Update the values a MODBUS Server Trigger running in the same n8n process hands out, e.g. results for a PLC to read back',
+					},
 				],
 				default: 'read',
 				noDataExpression: true,
 			},
+			{
+				displayName: 'Read Mode',
+				name: 'readMode',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['read'],
+					},
+				},
+				options: [
+					{
+						name: 'Address Range',
+						value: 'range',
+						description: 'Read raw values from consecutive addresses',
+					},
+					{
+						name: 'Tag Map',
+						value: 'tags',
+						description:
+							'Read named tags, merged into as few requests as possible, and return their decoded values',
+					},
+				],
+				default: 'range',
+			},
 			{
 				displayName: 'Function Code',
 				name: 'functionCode',
@@ -57,6 +183,10 @@ export class Modbus implements INodeType {
 					show: {
 						operation: ['read'],
 					},
+					hide: {
+						readMode: ['tags'],
+						addressNotation: ['modicon', 'iec'],
+					},
 				},
 				options: [
 					{
@@ -84,172 +214,1673 @@ export class Modbus implements INodeType {
 				noDataExpression: true,
 			},
 			{
-				displayName: 'Memory Address',
-				name: 'memoryAddress',
+				displayName: 'Function Code',
+				name: 'functionCode',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+					},
+				},
+				options: [
+					{
+						name: 'FC15 - Write Multiple Coils',
+						value: 'FC15',
+						description: 'Write a bank of consecutive coils',
+					},
+					{
+						name: 'FC16 - Write Multiple Registers',
+						value: 'FC16',
+						description: 'Write consecutive holding registers in one atomic request',
+					},
+					{
+						name: 'FC22 - Mask Write Register',
+						value: 'FC22',
+						description: 'Set or clear individual bits of a holding register on the device',
+					},
+					{
+						name: 'FC23 - Read/Write Multiple Registers',
+						value: 'FC23',
+						description: 'Write holding registers, then read holding registers in one request',
+					},
+					{
+						name: 'FC5 - Write Single Coil',
+						value: 'FC5',
+						description: 'Switch a single coil on or off',
+					},
+					{
+						name: 'FC6 - Write Single Register',
+						value: 'FC6',
+						description: 'Write one holding register (16-bit value)',
+					},
+				],
+				default: 'FC6',
+				noDataExpression: true,
+			},
+			{
+				displayName: 'Server Port',
+				name: 'serverPort',
 				type: 'number',
+				displayOptions: {
+					show: {
+						operation: ['serverRead', 'serverWrite'],
+					},
+				},
+				default: 5020,
+				description:
+					'The port of the MODBUS Server Trigger, which must be active in the same n8n process. Queue mode workers cannot reach it.',
+			},
+			{
+				displayName: 'Table',
+				name: 'table',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['serverRead', 'serverWrite'],
+					},
+				},
+				options: [
+					{
+						name: 'Coils',
+						value: 'coils',
+					},
+					{
+						name: 'Discrete Inputs',
+						value: 'discreteInputs',
+					},
+					{
+						name: 'Holding Registers',
+						value: 'holdingRegisters',
+					},
+					{
+						name: 'Input Registers',
+						value: 'inputRegisters',
+					},
+				],
+				default: 'holdingRegisters',
+			},
+			{
+				displayName: 'Address Base',
+				name: 'addressBase',
+				type: 'options',
+				displayOptions: {
+					show: {
+						'@version': [1],
+					},
+				},
+				options: [
+					{
+						name: '0-Based (PDU Address)',
+						value: 0,
+						description: 'Address 0 is the first register, as sent on the wire',
+					},
+					{
+						name: '1-Based (Register Number)',
+						value: 1,
+						description: 'Address 1 is the first register, as listed in most device manuals',
+					},
+				],
+				default: 0,
+				description:
+					'How plain addresses are counted. Modicon and IEC references do not depend on it.',
+			},
+			{
+				displayName: 'Address Base',
+				name: 'addressBase',
+				type: 'options',
+				displayOptions: {
+					show: {
+						'@version': [2],
+					},
+				},
+				options: [
+					{
+						name: '0-Based (PDU Address)',
+						value: 0,
+						description: 'Address 0 is the first register, as sent on the wire',
+					},
+					{
+						name: '1-Based (Register Number)',
+						value: 1,
+						description: 'Address 1 is the first register, as listed in most device manuals',
+					},
+				],
 				default: 1,
-				description: 'The memory address to read from or write to',
+				description:
+					'How plain addresses are counted. Modicon and IEC references do not depend on it.',
+			},
+			{
+				displayName: 'Address Notation',
+				name: 'addressNotation',
+				type: 'options',
+				options: [
+					{
+						name: 'IEC Reference',
+						value: 'iec',
+						description:
+							'References such as %MW100 (holding register), %IW100 (input register), %M100 (coil) or %I100 (discrete input), 0-based',
+					},
+					{
+						name: 'Modicon Reference',
+						value: 'modicon',
+						description:
+							'5- or 6-digit references such as 40001 or 400001, whose leading digit names the register type',
+					},
+					{
+						name: 'Number',
+						value: 'number',
+						description: 'Decimal or hex (0x) numbers, counted from the address base',
+					},
+				],
+				default: 'number',
+				description:
+					'How addresses are written. Reads use the register type a reference points at; writes, tags and server tables must match it.',
+			},
+			{
+				displayName: 'Memory Address',
+				name: 'memoryAddress',
+				type: 'string',
+				displayOptions: {
+					hide: {
+						readMode: ['tags'],
+					},
+				},
+				default: '1',
+				placeholder: '100, 0x64, 40101 or %MW100',
+				description: 'The memory address to read from or write to, written in the address notation',
 			},
 			{
 				displayName: 'Quantity',
 				displayOptions: {
 					show: {
-						operation: ['read'],
+						operation: ['read', 'serverRead'],
+					},
+					hide: {
+						readMode: ['tags'],
 					},
 				},
 				name: 'quantity',
 				type: 'number',
 				default: 1,
-				description: 'The number of registers or coils to read',
+				description:
+					'The number of registers or coils to read. Reads beyond the protocol limit are split into several requests.',
+				typeOptions: {
+					minValue: 1,
+				},
+			},
+			{
+				displayName: 'Read Options',
+				name: 'readOptions',
+				type: 'collection',
+				placeholder: 'Add option',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['read'],
+					},
+					hide: {
+						readMode: ['tags'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Chunk Size',
+						name: 'chunkSize',
+						type: 'number',
+						default: 0,
+						description:
+							'The most registers or coils to read per request. Use 0 for the protocol limit of 125 registers or 2000 coils, or less for devices with smaller buffers.',
+						typeOptions: {
+							maxValue: 2000,
+							minValue: 0,
+						},
+					},
+					{
+						displayName: 'Pipeline Chunks',
+						name: 'pipeline',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to send all chunks of a large read before the first answer arrives instead of waiting for each answer. Only Modbus TCP framing supports this; other framings send one chunk at a time.',
+					},
+					{
+						displayName: 'Register Format',
+						name: 'registerFormat',
+						type: 'options',
+						options: REGISTER_FORMAT_OPTIONS,
+						default: 'int16',
+						description: 'How to output holding and input register values',
+					},
+				],
+			},
+			{
+				displayName: 'Tags',
+				name: 'tags',
+				type: 'collection',
+				placeholder: 'Add Tag',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['read'],
+						readMode: ['tags'],
+					},
+				},
+				typeOptions: {
+					multipleValues: true,
+					multipleValueButtonText: 'Add Tag',
+				},
+				options: [
+					{
+						displayName: 'Address',
+						name: 'address',
+						type: 'string',
+						default: '0',
+						placeholder: '100, 0x64, 40101 or %MW100',
+						description:
+							'The memory address of the tag, or of its first register, written in the address notation',
+					},
+					{
+						displayName: 'Byte Order',
+						name: 'byteOrder',
+						type: 'options',
+						options: [
+							{
+								name: 'Big Endian (ABCD)',
+								value: 'big_endian',
+							},
+							{
+								name: 'Big Endian Byte Swap (BADC)',
+								value: 'big_endian_byte_swap',
+							},
+							{
+								name: 'Little Endian (CDAB)',
+								value: 'little_endian',
+							},
+							{
+								name: 'Little Endian Byte Swap (DCBA)',
+								value: 'little_endian_byte_swap',
+							},
+						],
+						default: 'big_endian',
+						description: 'Order of the bytes within and across registers',
+					},
+					{
+						displayName: 'Data Type',
+						name: 'dataType',
+						type: 'options',
+						options: [
+							{
+								name: 'BCD - Binary Coded Decimal',
+								value: 'bcd',
+							},
+							{
+								name: 'FLOAT32 - IEEE 754 32-Bit Float',
+								value: 'float32',
+							},
+							{
+								name: 'FLOAT64 - IEEE 754 64-Bit Float',
+								value: 'float64',
+							},
+							{
+								name: 'INT16 - Signed 16-Bit Integer',
+								value: 'int16',
+							},
+							{
+								name: 'INT32 - Signed 32-Bit Integer',
+								value: 'int32',
+							},
+							{
+								name: 'INT64 - Signed 64-Bit Integer',
+								value: 'int64',
+							},
+							{
+								name: 'UINT16 - Unsigned 16-Bit Integer',
+								value: 'uint16',
+							},
+							{
+								name: 'UINT32 - Unsigned 32-Bit Integer',
+								value: 'uint32',
+							},
+							{
+								name: 'UINT64 - Unsigned 64-Bit Integer',
+								value: 'uint64',
+							},
+						],
+						default: 'int16',
+						description:
+							'How to decode the registers of the tag. Coils and discrete inputs are always returned as booleans.',
+					},
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						default: '',
+						description: 'Unique key of the tag in the returned values',
+					},
+					{
+						displayName: 'Offset',
+						name: 'offset',
+						type: 'number',
+						default: 0,
+						description: 'Add this value after scaling',
+					},
+					{
+						displayName: 'Register Type',
+						name: 'functionCode',
+						type: 'options',
+						options: [
+							{
+								name: 'Coil (FC1)',
+								value: 'FC1',
+							},
+							{
+								name: 'Discrete Input (FC2)',
+								value: 'FC2',
+							},
+							{
+								name: 'Holding Register (FC3)',
+								value: 'FC3',
+							},
+							{
+								name: 'Input Register (FC4)',
+								value: 'FC4',
+							},
+						],
+						default: 'FC3',
+					},
+					{
+						displayName: 'Scale Factor',
+						name: 'scaleFactor',
+						type: 'number',
+						default: 1,
+						description: 'Multiply the decoded value by this factor',
+					},
+					{
+						displayName: 'Unit',
+						name: 'unit',
+						type: 'string',
+						default: '',
+						placeholder: 'kWh',
+						description: 'Engineering unit of the tag, returned alongside the values',
+					},
+					{
+						displayName: 'Word Swap',
+						name: 'wordSwap',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to swap the order of 16-bit words within multi-register values',
+					},
+				],
+			},
+			{
+				displayName: 'Tag Options',
+				name: 'tagOptions',
+				type: 'collection',
+				placeholder: 'Add option',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['read'],
+						readMode: ['tags'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Gap Tolerance',
+						name: 'maxGap',
+						type: 'number',
+						default: 10,
+						description:
+							'How many unused addresses may lie between two tags for them to still be read in one request. Use 0 to only merge adjacent tags.',
+						typeOptions: {
+							minValue: 0,
+						},
+					},
+					{
+						displayName: 'Max Coils per Request',
+						name: 'maxBits',
+						type: 'number',
+						default: 2000,
+						description: 'The most coils or discrete inputs to read in one request',
+						typeOptions: {
+							maxValue: 2000,
+							minValue: 1,
+						},
+					},
+					{
+						displayName: 'Max Registers per Request',
+						name: 'maxRegisters',
+						type: 'number',
+						default: 125,
+						description:
+							'The most registers to read in one request. Lower it for devices with smaller buffers.',
+						typeOptions: {
+							maxValue: 125,
+							minValue: 1,
+						},
+					},
+				],
 			},
 			{
 				displayName: 'Value',
 				displayOptions: {
 					show: {
 						operation: ['write'],
+						functionCode: ['FC6'],
 					},
 				},
 				name: 'value',
 				type: 'number',
 				typeOptions: {
-					maxValue: 32767,
+					maxValue: 65535,
 					minValue: -32768,
 				},
 				default: 1,
-				description: 'The value to write to the holding register',
+				description:
+					'The value to write to the holding register. Negative values are written as two’s complement.',
 			},
 			{
-				displayName: 'Unit ID',
-				name: 'unitId',
-				type: 'number',
-				default: 1,
-				description: 'The Modbus unit/slave ID (0-255). Use 0 for devices that require it.',
-				typeOptions: {
-					maxValue: 255,
-					minValue: 0,
+				displayName: 'Coil Value',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC5'],
+					},
 				},
+				name: 'coilValue',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to switch the coil on',
 			},
-		],
-	};
-
-	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		let responseData: IDataObject = {};
-		const credentials = await this.getCredentials<ModbusCredential>('modbusApi');
-		const client = await createClient(credentials);
-
-		const memoryAddress = this.getNodeParameter('memoryAddress', 0) as number;
-		const operation = this.getNodeParameter('operation', 0) as string;
-		const unitId = this.getNodeParameter('unitId', 0) as number;
-
-		if (operation === 'read') {
-			const functionCode = this.getNodeParameter('functionCode', 0) as string;
-			const quantity = this.getNodeParameter('quantity', 0) as number;
-
-			await new Promise((resolve) => {
-				switch (functionCode) {
-					case 'FC1':
-						client.readCoils({ address: memoryAddress, quantity, extra: { unitId } }, (err, data) => {
-							if (err) {
-								throw new NodeOperationError(this.getNode(), 'MODBUS FC1 Error: ' + err.message);
-							}
-
-							const returnData: IDataObject = {
-								functionCode: 'FC1',
-								address: memoryAddress,
-								quantity: quantity,
-								data: data?.response.data || [],
-							};
-
-							responseData = returnData;
-							resolve(responseData);
-						});
-						break;
-
-					case 'FC2':
-						client.readDiscreteInputs({ address: memoryAddress, quantity, extra: { unitId } }, (err, data) => {
-							if (err) {
-								throw new NodeOperationError(this.getNode(), 'MODBUS FC2 Error: ' + err.message);
-							}
-
-							const returnData: IDataObject = {
-								functionCode: 'FC2',
-								address: memoryAddress,
-								quantity: quantity,
-								data: data?.response.data || [],
-							};
-
-							responseData = returnData;
-							resolve(responseData);
-						});
-						break;
-
-					case 'FC3':
-						client.readHoldingRegisters({ address: memoryAddress, quantity, extra: { unitId } }, (err, data) => {
-							if (err) {
-								throw new NodeOperationError(this.getNode(), 'MODBUS FC3 Error: ' + err.message);
-							}
-
-							const returnData: IDataObject = {
-								functionCode: 'FC3',
-								address: memoryAddress,
-								quantity: quantity,
-								data: data?.response.data?.map((value) => value.readInt16BE(0)),
-							};
-
-							responseData = returnData;
-							resolve(responseData);
-						});
-						break;
-
-					case 'FC4':
-						client.readInputRegisters({ address: memoryAddress, quantity, extra: { unitId } }, (err, data) => {
-							if (err) {
-								throw new NodeOperationError(this.getNode(), 'MODBUS FC4 Error: ' + err.message);
-							}
-
-							const returnData: IDataObject = {
-								functionCode: 'FC4',
-								address: memoryAddress,
-								quantity: quantity,
-								data: data?.response.data?.map((value) => value.readInt16BE(0)),
-							};
-
-							responseData = returnData;
-							resolve(responseData);
-						});
-						break;
-
-					default:
-						throw new NodeOperationError(this.getNode(), 'Invalid function code: ' + functionCode);
-				}
-			});
-		}
-
-		if (operation === 'write') {
-			const value = this.getNodeParameter('value', 0) as number;
-
-			const buffer = Buffer.alloc(2);
-			buffer.writeInt16BE(value);
-
-			await new Promise((resolve) => {
-				client.writeSingleRegister({ address: memoryAddress, value: buffer, extra: { unitId } }, (err, data) => {
-					if (err) {
-						throw new NodeOperationError(this.getNode(), 'MODBUS Write Error: ' + err.message);
-					}
-
-					const returnData: IDataObject = {
-						functionCode: 'FC6',
-						address: memoryAddress,
-						value: value,
-						data: data.response,
-					};
-
-					responseData = returnData;
-					resolve(responseData);
-				});
-			});
-		}
-
-		return [this.helpers.returnJsonArray(responseData)];
-	}
-}
\ No newline at end of file
+			{
+				displayName: 'Coil Values',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC15'],
+					},
+				},
+				name: 'coilValues',
+				type: 'string',
+				default: '',
+				placeholder: '1, 0, 1, 1',
+				description:
+					'Comma-separated list or JSON array of coil states (1/0 or true/false), written from the memory address onwards',
+			},
+			{
+				displayName: 'Value Input',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC16'],
+					},
+				},
+				name: 'valueInput',
+				type: 'options',
+				options: [
+					{
+						name: 'Register Values',
+						value: 'registers',
+						description: 'List the raw 16-bit register values',
+					},
+					{
+						name: 'Typed Value',
+						value: 'typed',
+						description:
+							'Encode an engineering value (float, 32-bit integer, string…) into registers',
+					},
+				],
+				default: 'registers',
+			},
+			{
+				displayName: 'Register Values',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC16', 'FC23'],
+					},
+					hide: {
+						valueInput: ['typed'],
+					},
+				},
+				name: 'registerValues',
+				type: 'string',
+				default: '',
+				placeholder: '100, 200, -1',
+				description:
+					'Comma-separated list or JSON array of 16-bit values (-32768 to 65535), written from the memory address onwards',
+			},
+			{
+				displayName: 'Data Type',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC16'],
+						valueInput: ['typed'],
+					},
+				},
+				name: 'dataType',
+				type: 'options',
+				options: [
+					{
+						name: 'BCD - Binary Coded Decimal (0-9999)',
+						value: 'bcd',
+					},
+					{
+						name: 'FLOAT32 - IEEE 754 32-Bit Float',
+						value: 'float32',
+					},
+					{
+						name: 'FLOAT64 - IEEE 754 64-Bit Float',
+						value: 'float64',
+					},
+					{
+						name: 'INT16 - Signed 16-Bit Integer',
+						value: 'int16',
+					},
+					{
+						name: 'INT32 - Signed 32-Bit Integer',
+						value: 'int32',
+					},
+					{
+						name: 'INT64 - Signed 64-Bit Integer',
+						value: 'int64',
+					},
+					{
+						name: 'STRING - ASCII Text',
+						value: 'string',
+					},
+					{
+						name: 'UINT16 - Unsigned 16-Bit Integer',
+						value: 'uint16',
+					},
+					{
+						name: 'UINT32 - Unsigned 32-Bit Integer',
+						value: 'uint32',
+					},
+					{
+						name: 'UINT64 - Unsigned 64-Bit Integer',
+						value: 'uint64',
+					},
+				],
+				default: 'float32',
+				description: 'Data type to encode the value as',
+			},
+			{
+				displayName: 'Value',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC16'],
+						valueInput: ['typed'],
+					},
+					hide: {
+						dataType: ['string'],
+					},
+				},
+				name: 'typedValue',
+				type: 'number',
+				typeOptions: {
+					numberPrecision: 6,
+				},
+				default: 0,
+				description:
+					'The engineering value to write. INT64 and UINT64 values are exact up to 2^53 (9007199254740991).',
+			},
+			{
+				displayName: 'Text',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC16'],
+						valueInput: ['typed'],
+						dataType: ['string'],
+					},
+				},
+				name: 'textValue',
+				type: 'string',
+				default: '',
+				description: 'The text to write, two characters per register',
+			},
+			{
+				displayName: 'String Length',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC16'],
+						valueInput: ['typed'],
+						dataType: ['string'],
+					},
+				},
+				name: 'stringLength',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+					maxValue: 123,
+				},
+				default: 0,
+				description:
+					'Number of registers to write, padding the text with NUL characters. Use 0 to write just enough registers for the text.',
+			},
+			{
+				displayName: 'Byte Order',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC16'],
+						valueInput: ['typed'],
+					},
+					hide: {
+						dataType: ['string'],
+					},
+				},
+				name: 'byteOrder',
+				type: 'options',
+				options: [
+					{
+						name: 'Big Endian (ABCD)',
+						value: 'big_endian',
+					},
+					{
+						name: 'Big Endian Byte Swap (BADC)',
+						value: 'big_endian_byte_swap',
+					},
+					{
+						name: 'Little Endian (CDAB)',
+						value: 'little_endian',
+					},
+					{
+						name: 'Little Endian Byte Swap (DCBA)',
+						value: 'little_endian_byte_swap',
+					},
+				],
+				default: 'big_endian',
+				description: 'Order of the bytes within and across registers',
+			},
+			{
+				displayName: 'Word Swap',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC16'],
+						valueInput: ['typed'],
+						dataType: ['int32', 'uint32', 'float32', 'int64', 'uint64', 'float64'],
+					},
+				},
+				name: 'wordSwap',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to swap the order of 16-bit words within multi-register values (ABCD→CDAB, DCBA→BADC)',
+			},
+			{
+				displayName: 'Scale Factor',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC16'],
+						valueInput: ['typed'],
+					},
+					hide: {
+						dataType: ['string'],
+					},
+				},
+				name: 'scaleFactor',
+				type: 'number',
+				typeOptions: {
+					numberPrecision: 6,
+				},
+				default: 1,
+				description:
+					'Scale factor the device applies when reading (value = raw × scale factor + offset). The raw value written is (value − offset) ÷ scale factor.',
+			},
+			{
+				displayName: 'Offset',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC16'],
+						valueInput: ['typed'],
+					},
+					hide: {
+						dataType: ['string'],
+					},
+				},
+				name: 'offset',
+				type: 'number',
+				default: 0,
+				description: 'Offset the device applies after scaling',
+			},
+			{
+				displayName: 'Mask Mode',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC22'],
+					},
+				},
+				name: 'maskMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Set/Clear Bits',
+						value: 'bits',
+						description: 'List the bit positions to set and to clear',
+					},
+					{
+						name: 'AND/OR Masks',
+						value: 'masks',
+						description:
+							'Provide the raw masks: result = (current AND andMask) OR (orMask AND NOT andMask)',
+					},
+				],
+				default: 'bits',
+			},
+			{
+				displayName: 'Bits to Set',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC22'],
+						maskMode: ['bits'],
+					},
+				},
+				name: 'setBits',
+				type: 'string',
+				default: '',
+				placeholder: '0, 3',
+				description: 'Comma-separated list of bit positions (0-15) to set',
+			},
+			{
+				displayName: 'Bits to Clear',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC22'],
+						maskMode: ['bits'],
+					},
+				},
+				name: 'clearBits',
+				type: 'string',
+				default: '',
+				placeholder: '1',
+				description: 'Comma-separated list of bit positions (0-15) to clear',
+			},
+			{
+				displayName: 'AND Mask',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC22'],
+						maskMode: ['masks'],
+					},
+				},
+				name: 'andMask',
+				type: 'number',
+				typeOptions: {
+					maxValue: 65535,
+					minValue: 0,
+				},
+				default: 65535,
+				description: 'Bits that are 1 in the AND mask keep their current value',
+			},
+			{
+				displayName: 'OR Mask',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC22'],
+						maskMode: ['masks'],
+					},
+				},
+				name: 'orMask',
+				type: 'number',
+				typeOptions: {
+					maxValue: 65535,
+					minValue: 0,
+				},
+				default: 0,
+				description: 'Value for the bits that are 0 in the AND mask',
+			},
+			{
+				displayName: 'Read Address',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC23'],
+					},
+				},
+				name: 'readAddress',
+				type: 'string',
+				default: '1',
+				placeholder: '100 or 40101',
+				description: 'The first holding register to read back after the write',
+			},
+			{
+				displayName: 'Read Quantity',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC23'],
+					},
+				},
+				name: 'readQuantity',
+				type: 'number',
+				typeOptions: {
+					maxValue: 125,
+					minValue: 1,
+				},
+				default: 1,
+				description: 'The number of holding registers to read',
+			},
+			{
+				displayName: 'Register Format',
+				displayOptions: {
+					show: {
+						operation: ['write'],
+						functionCode: ['FC23'],
+					},
+				},
+				name: 'registerFormat',
+				type: 'options',
+				options: REGISTER_FORMAT_OPTIONS,
+				default: 'int16',
+				description: 'How to output the registers read back',
+			},
+			{
+				displayName: 'Values',
+				name: 'serverValues',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['serverWrite'],
+					},
+				},
+				default: '',
+				placeholder: '1, 2, 3',
+				description:
+					'Comma-separated values or a JSON array to write from the memory address on. Use 1/0 or true/false for coils and discrete inputs.',
+			},
+			{
+				displayName: 'Unit ID',
+				name: 'unitId',
+				type: 'number',
+				displayOptions: {
+					show: {
+						operation: ['read', 'write'],
+					},
+				},
+				default: 1,
+				description: 'The Modbus unit/slave ID (0-255). Use 0 for devices that require it.',
+				typeOptions: {
+					maxValue: 255,
+					minValue: 0,
+				},
+			},
+		],
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData();
+		const returnData: INodeExecutionData[] = [];
+
+		// One pooled connection serves the whole batch; the server image needs none
+		const operation = this.getNodeParameter('operation', 0) as string;
+		let connection: ConnectionLease | undefined;
+
+		if (operation === 'read' || operation === 'write') {
+			const credentials = await this.getCredentials<ModbusCredential>('modbusApi');
+			connection = await acquireConnection(credentials);
+		}
+
+		try {
+			for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+				try {
+					let responseData: IDataObject;
+
+					switch (operation) {
+						case 'read':
+							responseData =
+								this.getNodeParameter('readMode', itemIndex, 'range') === 'tags'
+									? await executeTagRead(this, connection!, itemIndex)
+									: await executeRead(this, connection!, itemIndex);
+							break;
+						case 'write':
+							responseData = await executeWrite(this, connection!, itemIndex);
+							break;
+						case 'serverRead':
+						case 'serverWrite':
+							responseData = executeServerImage(this, operation, itemIndex);
+							break;
+						default:
+							throw new NodeOperationError(this.getNode(), 'Invalid operation: ' + operation, {
+								itemIndex,
+							});
+					}
+
+					returnData.push({
+						json: responseData,
+						pairedItem: { item: itemIndex },
+					});
+				} catch (error) {
+					if (this.continueOnFail()) {
+						returnData.push({
+							json: { error: error.message },
+							pairedItem: { item: itemIndex },
+						});
+						continue;
+					}
+
+					if (error instanceof NodeOperationError) throw error;
+					throw new NodeOperationError(this.getNode(), error.message, { itemIndex });
+				}
+			}
+		} finally {
+			connection?.release();
+		}
+
+		return [returnData];
+	}
+}
+
+/**
+ * Resolve an address parameter in the address base and notation of the node
+ */
+function resolveAddress(
+	context: IExecuteFunctions,
+	input: unknown,
+	itemIndex: number,
+): ResolvedAddress {
+	const base = context.getNodeParameter(
+		'addressBase',
+		itemIndex,
+		defaultAddressBase(context.getNode().typeVersion),
+	) as AddressBase;
+	const notation = context.getNodeParameter(
+		'addressNotation',
+		itemIndex,
+		'number',
+	) as AddressNotation;
+
+	return parseAddress(input, base, notation);
+}
+
+async function executeRead(
+	context: IExecuteFunctions,
+	connection: ConnectionLease,
+	itemIndex: number,
+): Promise<IDataObject> {
+	const resolved = resolveAddress(
+		context,
+		context.getNodeParameter('memoryAddress', itemIndex),
+		itemIndex,
+	);
+	// References name the table to read, whatever function code is selected
+	const functionCode = readFunctionCode(
+		resolved,
+		context.getNodeParameter('functionCode', itemIndex, 'FC3') as ReadFunctionCode,
+	);
+	const memoryAddress = resolved.address;
+	const quantity = context.getNodeParameter('quantity', itemIndex) as number;
+	const unitId = context.getNodeParameter('unitId', itemIndex) as number;
+
+	if (!['FC1', 'FC2', 'FC3', 'FC4'].includes(functionCode)) {
+		throw new NodeOperationError(context.getNode(), 'Invalid function code: ' + functionCode, {
+			itemIndex,
+		});
+	}
+
+	const readOptions = context.getNodeParameter('readOptions', itemIndex, {}) as ChunkOptions & {
+		registerFormat?: RegisterFormat;
+	};
+	let result: ChunkedReadResult;
+
+	try {
+		result = await readChunked(
+			connection,
+			functionCode as ReadFunctionCode,
+			memoryAddress,
+			quantity,
+			unitId,
+			readOptions,
+		);
+	} catch (error) {
+		throw new NodeOperationError(
+			context.getNode(),
+			`MODBUS ${functionCode} Error: ` + error.message,
+			{
+				itemIndex,
+			},
+		);
+	}
+
+	const data =
+		functionCode === 'FC1' || functionCode === 'FC2'
+			? { data: result.data }
+			: formatRegisters(
+					result.data.map((value) => (value === null ? null : (value as Buffer).readUInt16BE(0))),
+					readOptions.registerFormat,
+			  );
+
+	const responseData: IDataObject = {
+		functionCode,
+		address: memoryAddress,
+		reference: toReference(functionCode, memoryAddress),
+		quantity,
+		...data,
+		attempts: result.attempts,
+	};
+	if (result.failedChunks.length) {
+		responseData.failedChunks = result.failedChunks as unknown as IDataObject[];
+	}
+	return responseData;
+}
+
+/**
+ * Read a tag map with as few requests as possible and decode every tag by name
+ */
+async function executeTagRead(
+	context: IExecuteFunctions,
+	connection: ConnectionLease,
+	itemIndex: number,
+): Promise<IDataObject> {
+	const tags = getTags(context, itemIndex);
+	const tagOptions = context.getNodeParameter('tagOptions', itemIndex, {}) as TagOptions;
+	const unitId = context.getNodeParameter('unitId', itemIndex) as number;
+	const requests = planTagRequests(tags, tagOptions);
+
+	const values: IDataObject = {};
+	const units: IDataObject = {};
+	const errors: IDataObject = {};
+	const warnings: IDataObject = {};
+	let attempts = 0;
+
+	// Keep the values in the order the tags are defined rather than in request order
+	for (const tag of tags) {
+		values[tag.name] = null;
+	}
+
+	for (const request of requests) {
+		let result: RequestResult<any>;
+
+		try {
+			result = await readRange(
+				connection,
+				request.functionCode,
+				request.address,
+				request.quantity,
+				unitId,
+			);
+		} catch (error) {
+			throw new NodeOperationError(
+				context.getNode(),
+				`MODBUS ${request.functionCode} Error at address ${request.address}: ` + error.message,
+				{ itemIndex },
+			);
+		}
+
+		attempts += result.attempts;
+		const data: Array<number | Buffer> = result.data?.response.data ?? [];
+		const bits = request.functionCode === 'FC1' || request.functionCode === 'FC2';
+		const registers = bits ? [] : data.map((value) => (value as Buffer).readUInt16BE(0));
+
+		for (const tag of request.tags) {
+			const index = tag.address - request.address;
+
+			if (isBitTag(tag)) {
+				values[tag.name] = Boolean(data[index]);
+			} else {
+				const converted = DataConversionUtils.convertData(registers, {
+					name: tag.name,
+					startRegister: index,
+					dataType: tag.dataType,
+					byteOrder: tag.byteOrder,
+					wordSwap: tag.wordSwap,
+				});
+
+				if (converted.valid) {
+					values[tag.name] = converted.value * (tag.scaleFactor ?? 1) + (tag.offset ?? 0);
+					if (converted.warning) {
+						warnings[tag.name] = converted.warning;
+					}
+				} else {
+					values[tag.name] = null;
+					errors[tag.name] = converted.error;
+				}
+			}
+
+			if (tag.unit) {
+				units[tag.name] = tag.unit;
+			}
+		}
+	}
+
+	const responseData: IDataObject = {
+		values,
+		requests: requests.map(({ functionCode, address, quantity }) => ({
+			functionCode,
+			address,
+			quantity,
+		})),
+		attempts,
+	};
+	if (Object.keys(units).length) {
+		responseData.units = units;
+	}
+	if (Object.keys(errors).length) {
+		responseData.errors = errors;
+	}
+	if (Object.keys(warnings).length) {
+		responseData.warnings = warnings;
+	}
+	return responseData;
+}
+
+function getTags(context: IExecuteFunctions, itemIndex: number): Tag[] {
+	const input = context.getNodeParameter('tags', itemIndex, []) as Array<
+		Omit<Partial<Tag>, 'address'> & { address?: string | number }
+	>;
+	const names = new Set<string>();
+
+	const tags = input.map((tag, index): Tag => {
+		const name = (tag.name ?? '').trim();
+
+		if (!name) {
+			throw new NodeOperationError(context.getNode(), `Tag ${index + 1} needs a name`, {
+				itemIndex,
+			});
+		}
+		if (names.has(name)) {
+			throw new NodeOperationError(context.getNode(), `Tag name "${name}" is used twice`, {
+				itemIndex,
+			});
+		}
+		names.add(name);
+
+		const functionCode = tag.functionCode ?? 'FC3';
+		let resolved: ResolvedAddress;
+		try {
+			resolved = resolveAddress(context, tag.address ?? '0', itemIndex);
+			checkTable(resolved, functionCode as ReadFunctionCode, 'its register type');
+		} catch (error) {
+			throw new NodeOperationError(context.getNode(), `Tag "${name}": ${error.message}`, {
+				itemIndex,
+			});
+		}
+
+		return {
+			...tag,
+			name,
+			functionCode,
+			address: resolved.address,
+			dataType: tag.dataType ?? 'int16',
+			byteOrder: tag.byteOrder ?? 'big_endian',
+		};
+	});
+
+	if (tags.length === 0) {
+		throw new NodeOperationError(context.getNode(), 'Add at least one tag to read', {
+			itemIndex,
+		});
+	}
+
+	return tags;
+}
+
+function isBitTag(tag: Tag): boolean {
+	return tag.functionCode === 'FC1' || tag.functionCode === 'FC2';
+}
+
+/**
+ * Group tags into the fewest read requests: tags of the same function code share a
+ * request when the addresses between them do not exceed the gap tolerance and the
+ * request stays within the size limit
+ */
+function planTagRequests(tags: Tag[], options: TagOptions): TagRequest[] {
+	const maxGap = options.maxGap ?? 10;
+	const requests: TagRequest[] = [];
+
+	const sorted = [...tags].sort((a, b) =>
+		a.functionCode === b.functionCode
+			? a.address - b.address
+			: a.functionCode.localeCompare(b.functionCode),
+	);
+
+	let current: TagRequest | undefined;
+
+	for (const tag of sorted) {
+		const limit = isBitTag(tag) ? options.maxBits ?? 2000 : options.maxRegisters ?? 125;
+		const size = isBitTag(tag) ? 1 : DataConversionUtils.getRequiredRegisters(tag.dataType);
+
+		if (size > limit) {
+			throw new ApplicationError(
+				`Tag "${tag.name}" needs ${size} registers, more than the ${limit} read per request`,
+			);
+		}
+
+		const end = tag.address + size;
+
+		if (
+			current &&
+			current.functionCode === tag.functionCode &&
+			tag.address - (current.address + current.quantity) <= maxGap &&
+			Math.max(end, current.address + current.quantity) - current.address <= limit
+		) {
+			current.quantity = Math.max(end, current.address + current.quantity) - current.address;
+			current.tags.push(tag);
+			continue;
+		}
+
+		current = { functionCode: tag.functionCode, address: tag.address, quantity: size, tags: [tag] };
+		requests.push(current);
+	}
+
+	return requests;
+}
+
+/**
+ * Make sure the values of a multiple write fit in one request
+ */
+function checkWriteQuantity(
+	context: IExecuteFunctions,
+	functionCode: string,
+	quantity: number,
+	max: number,
+	itemIndex: number,
+) {
+	if (quantity < 1 || quantity > max) {
+		throw new NodeOperationError(
+			context.getNode(),
+			`${functionCode} writes 1 to ${max} values in one request, got ${quantity}`,
+			{ itemIndex },
+		);
+	}
+}
+
+async function executeWrite(
+	context: IExecuteFunctions,
+	connection: ConnectionLease,
+	itemIndex: number,
+): Promise<IDataObject> {
+	const functionCode = context.getNodeParameter('functionCode', itemIndex) as string;
+	const table = functionCode === 'FC5' || functionCode === 'FC15' ? 'FC1' : 'FC3';
+	const resolved = resolveAddress(
+		context,
+		context.getNodeParameter('memoryAddress', itemIndex),
+		itemIndex,
+	);
+	checkTable(resolved, table, functionCode);
+	const memoryAddress = resolved.address;
+	const reference = toReference(table, memoryAddress);
+	const unitId = context.getNodeParameter('unitId', itemIndex) as number;
+	const extra = { unitId };
+
+	try {
+		switch (functionCode) {
+			case 'FC5': {
+				const value = context.getNodeParameter('coilValue', itemIndex) as boolean;
+
+				const { attempts } = await connection.request((client, callback) =>
+					client.writeSingleCoil({ address: memoryAddress, value: value ? 1 : 0, extra }, callback),
+				);
+
+				return {
+					functionCode,
+					address: memoryAddress,
+					reference,
+					value,
+					attempts,
+				};
+			}
+
+			case 'FC6': {
+				const value = context.getNodeParameter('value', itemIndex) as number;
+
+				const { data, attempts } = await connection.request((client, callback) =>
+					client.writeSingleRegister(
+						{ address: memoryAddress, value: toRegisterBuffer(value), extra },
+						callback,
+					),
+				);
+
+				return {
+					functionCode,
+					address: memoryAddress,
+					reference,
+					value: value,
+					data: data.response,
+					attempts,
+				};
+			}
+
+			case 'FC15': {
+				const values = parseList(context.getNodeParameter('coilValues', itemIndex)).map(
+					toCoilValue,
+				);
+				checkWriteQuantity(context, functionCode, values.length, MAX_WRITE_COILS, itemIndex);
+
+				const { attempts } = await connection.request((client, callback) =>
+					client.writeMultipleCoils({ address: memoryAddress, values, extra }, callback),
+				);
+
+				return {
+					functionCode,
+					address: memoryAddress,
+					reference,
+					quantity: values.length,
+					values: values.map(Boolean),
+					attempts,
+				};
+			}
+
+			case 'FC16': {
+				const valueInput = context.getNodeParameter('valueInput', itemIndex, 'registers') as string;
+				const encoding = valueInput === 'typed' ? getEncodingRule(context, itemIndex) : undefined;
+				const values = encoding
+					? DataConversionUtils.encodeData(encoding.value, encoding.rule)
+					: parseList(context.getNodeParameter('registerValues', itemIndex)).map(toRegisterValue);
+				checkWriteQuantity(context, functionCode, values.length, MAX_WRITE_REGISTERS, itemIndex);
+
+				const { attempts } = await connection.request((client, callback) =>
+					client.writeMultipleRegisters(
+						{ address: memoryAddress, values: values.map(toRegisterBuffer), extra },
+						callback,
+					),
+				);
+
+				const responseData: IDataObject = {
+					functionCode,
+					address: memoryAddress,
+					reference,
+					quantity: values.length,
+					values,
+					attempts,
+				};
+				if (encoding) {
+					responseData.dataType = encoding.rule.dataType;
+					responseData.value = encoding.value;
+				}
+				return responseData;
+			}
+
+			case 'FC22': {
+				const { andMask, orMask } = getMasks(context, itemIndex);
+
+				const { attempts } = await connection.request((client, callback) =>
+					client.maskWriteRegister(
+						{ address: memoryAddress, andmask: andMask, ormask: orMask, extra },
+						callback,
+					),
+				);
+
+				return {
+					functionCode,
+					address: memoryAddress,
+					reference,
+					andMask,
+					orMask,
+					attempts,
+				};
+			}
+
+			case 'FC23': {
+				const values = parseList(context.getNodeParameter('registerValues', itemIndex)).map(
+					toRegisterValue,
+				);
+				checkWriteQuantity(
+					context,
+					functionCode,
+					values.length,
+					MAX_READ_WRITE_REGISTERS,
+					itemIndex,
+				);
+				const resolvedRead = resolveAddress(
+					context,
+					context.getNodeParameter('readAddress', itemIndex),
+					itemIndex,
+				);
+				checkTable(resolvedRead, 'FC3', functionCode);
+				const readAddress = resolvedRead.address;
+				const readQuantity = context.getNodeParameter('readQuantity', itemIndex) as number;
+				const registerFormat = context.getNodeParameter(
+					'registerFormat',
+					itemIndex,
+					'int16',
+				) as RegisterFormat;
+
+				const { data, attempts } = await connection.request((client, callback) =>
+					client.readWriteMultipleRegisters(
+						{
+							read_address: readAddress,
+							read_quantity: readQuantity,
+							write_address: memoryAddress,
+							values: values.map(toRegisterBuffer),
+							extra,
+						},
+						callback,
+					),
+				);
+
+				return {
+					functionCode,
+					writeAddress: memoryAddress,
+					writeReference: reference,
+					values,
+					readAddress,
+					readReference: toReference('FC3', readAddress),
+					readQuantity,
+					...formatRegisters(
+						(data.response.values as Buffer[]).map((value) => value.readUInt16BE(0)),
+						registerFormat,
+					),
+					attempts,
+				};
+			}
+
+			default:
+				throw new NodeOperationError(context.getNode(), 'Invalid function code: ' + functionCode, {
+					itemIndex,
+				});
+		}
+	} catch (error) {
+		if (error instanceof NodeOperationError) throw error;
+		throw new NodeOperationError(
+			context.getNode(),
+			`MODBUS ${functionCode} Error: ` + error.message,
+			{
+				itemIndex,
+			},
+		);
+	}
+}
+
+const SERVER_TABLES: Record<ReadFunctionCode, ServerTable> = {
+	FC1: 'coils',
+	FC2: 'discreteInputs',
+	FC3: 'holdingRegisters',
+	FC4: 'inputRegisters',
+};
+
+/**
+ * Read or update the register image of a running MODBUS Server Trigger
+ */
+function executeServerImage(
+	context: IExecuteFunctions,
+	operation: string,
+	itemIndex: number,
+): IDataObject {
+	const port = context.getNodeParameter('serverPort', itemIndex) as number;
+	const resolved = resolveAddress(
+		context,
+		context.getNodeParameter('memoryAddress', itemIndex),
+		itemIndex,
+	);
+	const table = context.getNodeParameter('table', itemIndex) as ServerTable;
+	const tableCode = Object.keys(SERVER_TABLES).find(
+		(code) => SERVER_TABLES[code as ReadFunctionCode] === table,
+	) as ReadFunctionCode;
+	checkTable(resolved, tableCode, 'the table');
+	const memoryAddress = resolved.address;
+	const server = getServer(port);
+
+	if (operation === 'serverRead') {
+		const quantity = context.getNodeParameter('quantity', itemIndex) as number;
+
+		return {
+			port,
+			table,
+			address: memoryAddress,
+			quantity,
+			data: server.read(table, memoryAddress, quantity),
+		};
+	}
+
+	const bits = table === 'coils' || table === 'discreteInputs';
+	const values = parseList(context.getNodeParameter('serverValues', itemIndex)).map((value) =>
+		bits ? toCoilValue(value) === 1 : toRegisterValue(value),
+	);
+
+	const previous = server.read(table, memoryAddress, values.length);
+	server.write(table, memoryAddress, values);
+
+	return {
+		port,
+		table,
+		address: memoryAddress,
+		quantity: values.length,
+		previous,
+		data: server.read(table, memoryAddress, values.length),
+	};
+}
+
+/**
+ * Accept a JSON array, a comma-separated string or an array from an expression
+ */
+function parseList(input: unknown): unknown[] {
+	if (Array.isArray(input)) return input;
+	if (typeof input === 'number' || typeof input === 'boolean') return [input];
+
+	const text = String(input ?? '').trim();
+	if (text === '') {
+		throw new ApplicationError('No values to write');
+	}
+
+	if (text.startsWith('[')) {
+		const parsed = JSON.parse(text);
+		if (!Array.isArray(parsed)) {
+			throw new ApplicationError(`Values must be a list, got: ${text}`);
+		}
+		return parsed;
+	}
+
+	return text.split(',').map((value) => value.trim());
+}
+
+function toCoilValue(value: unknown): number {
+	if (value === true || value === 1 || value === '1' || value === 'true') return 1;
+	if (value === false || value === 0 || value === '0' || value === 'false') return 0;
+
+	throw new ApplicationError(`Invalid coil value: ${value}. Use 1/0 or true/false.`);
+}
+
+function toRegisterValue(value: unknown): number {
+	const number = Number(value);
+
+	if (value === '' || !Number.isInteger(number) || number < -32768 || number > 65535) {
+		throw new ApplicationError(
+			`Invalid register value: ${value}. Use integers from -32768 to 65535.`,
+		);
+	}
+
+	return number;
+}
+
+function toRegisterBuffer(value: number): Buffer {
+	const buffer = Buffer.alloc(2);
+	buffer.writeUInt16BE(value & 0xffff);
+	return buffer;
+}
+
+function toBitPosition(value: unknown): number {
+	const bit = Number(value);
+
+	if (value === '' || !Number.isInteger(bit) || bit < 0 || bit > 15) {
+		throw new ApplicationError(`Invalid bit position: ${value}. Use 0 to 15.`);
+	}
+
+	return bit;
+}
+
+/**
+ * Resolve the FC22 AND/OR masks, either given directly or built from bit positions
+ */
+function getMasks(
+	context: IExecuteFunctions,
+	itemIndex: number,
+): { andMask: number; orMask: number } {
+	const maskMode = context.getNodeParameter('maskMode', itemIndex) as string;
+
+	if (maskMode === 'masks') {
+		return {
+			andMask: context.getNodeParameter('andMask', itemIndex) as number,
+			orMask: context.getNodeParameter('orMask', itemIndex) as number,
+		};
+	}
+
+	const toMask = (input: string) =>
+		input.trim() === ''
+			? 0
+			: parseList(input)
+					.map(toBitPosition)
+					.reduce((mask, bit) => mask | (1 << bit), 0);
+
+	const setMask = toMask(context.getNodeParameter('setBits', itemIndex) as string);
+	const clearMask = toMask(context.getNodeParameter('clearBits', itemIndex) as string);
+
+	if (setMask & clearMask) {
+		throw new ApplicationError('A bit cannot be both set and cleared');
+	}
+
+	return {
+		andMask: ~(setMask | clearMask) & 0xffff,
+		orMask: setMask,
+	};
+}
+
+/**
+ * Read the FC16 typed value and the rule describing how to encode it
+ */
+function getEncodingRule(
+	context: IExecuteFunctions,
+	itemIndex: number,
+): { value: number | string; rule: EncodingRule } {
+	const dataType = context.getNodeParameter('dataType', itemIndex) as EncodingRule['dataType'];
+
+	if (dataType === 'string') {
+		const stringLength = context.getNodeParameter('stringLength', itemIndex, 0) as number;
+
+		return {
+			value: context.getNodeParameter('textValue', itemIndex) as string,
+			rule: {
+				dataType,
+				byteOrder: 'big_endian',
+				stringLength: stringLength > 0 ? stringLength : undefined,
+			},
+		};
+	}
+
+	return {
+		value: context.getNodeParameter('typedValue', itemIndex) as number,
+		rule: {
+			dataType,
+			byteOrder: context.getNodeParameter(
+				'byteOrder',
+				itemIndex,
+				'big_endian',
+			) as EncodingRule['byteOrder'],
+			wordSwap: context.getNodeParameter('wordSwap', itemIndex, false) as boolean,
+			scaleFactor: context.getNodeParameter('scaleFactor', itemIndex, 1) as number,
+			offset: context.getNodeParameter('offset', itemIndex, 0) as number,
+		},
+	};
+}
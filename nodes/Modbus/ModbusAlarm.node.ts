@@ -0,0 +1,570 @@
+import type {
+	INodeType,
+	INodeTypeDescription,
+	IExecuteFunctions,
+	INodeExecutionData,
+	IDataObject,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { DataConversionUtils, type ConversionRule } from './DataConversionUtils';
+import { extractRegisters } from './GenericFunctions';
+
+type AlarmLevel = 'highHigh' | 'high' | 'low' | 'lowLow';
+
+interface AlarmDefinition {
+	name: string;
+	valueField?: string;
+	startRegister?: number;
+	dataType?: ConversionRule['dataType'];
+	byteOrder?: ConversionRule['byteOrder'];
+	wordSwap?: boolean;
+	scaleFactor?: number;
+	offset?: number;
+	highHighLimit?: number;
+	highLimit?: number;
+	lowLimit?: number;
+	lowLowLimit?: number;
+	hysteresis?: number;
+	onDelay?: number;
+	offDelay?: number;
+}
+
+/**
+ * State of one alarm, kept in the workflow static data between executions
+ */
+interface AlarmState {
+	level: AlarmLevel | null;
+	/** When the alarm entered its current level */
+	since?: number;
+	/** When the active alarm was raised, whichever levels it went through since */
+	raisedAt?: number;
+	/** Level the value has been in since `pendingSince`, waiting for the on/off delay */
+	pendingLevel?: AlarmLevel | null;
+	pendingSince?: number;
+	acknowledged: boolean;
+}
+
+const LIMITS: Record<AlarmLevel, keyof AlarmDefinition> = {
+	highHigh: 'highHighLimit',
+	high: 'highLimit',
+	low: 'lowLimit',
+	lowLow: 'lowLowLimit',
+};
+
+export class ModbusAlarm implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'MODBUS Alarm',
+		name: 'modbusAlarm',
+		icon: 'file:modbus.svg',
+		group: ['transform'],
+		version: 1,
+		description: 'Raise and clear named alarms on Modbus values with limits, hysteresis and delays',
+		eventTriggerDescription: '',
+		defaults: {
+			name: 'MODBUS Alarm',
+		},
+		//@ts-ignore
+		inputs: ['main'],
+		//@ts-ignore
+		outputs: ['main'],
+		properties: [
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				options: [
+					{
+						name: 'Evaluate',
+						value: 'evaluate',
+						description: 'Check the incoming values against the alarm limits',
+						action: 'Evaluate alarms',
+					},
+					{
+						name: 'Acknowledge',
+						value: 'acknowledge',
+						description: 'Acknowledge a raised alarm',
+						action: 'Acknowledge an alarm',
+					},
+				],
+				default: 'evaluate',
+				noDataExpression: true,
+			},
+			{
+				displayName:
+					'Alarm states are kept with the workflow, so they carry over from one execution to the next while the workflow is active',
+				name: 'notice',
+				type: 'notice',
+				default: '',
+			},
+			{
+				displayName: 'Alarms',
+				name: 'alarms',
+				type: 'collection',
+				placeholder: 'Add Alarm',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['evaluate'],
+					},
+				},
+				typeOptions: {
+					multipleValues: true,
+					multipleValueButtonText: 'Add Alarm',
+				},
+				options: [
+					{
+						displayName: 'Byte Order',
+						name: 'byteOrder',
+						type: 'options',
+						options: [
+							{
+								name: 'Big Endian (ABCD)',
+								value: 'big_endian',
+							},
+							{
+								name: 'Big Endian Byte Swap (BADC)',
+								value: 'big_endian_byte_swap',
+							},
+							{
+								name: 'Little Endian (CDAB)',
+								value: 'little_endian',
+							},
+							{
+								name: 'Little Endian Byte Swap (DCBA)',
+								value: 'little_endian_byte_swap',
+							},
+						],
+						default: 'big_endian',
+						description: 'Order of the bytes within and across registers',
+					},
+					{
+						displayName: 'Data Type',
+						name: 'dataType',
+						type: 'options',
+						options: [
+							{
+								name: 'BCD - Binary Coded Decimal',
+								value: 'bcd',
+							},
+							{
+								name: 'FLOAT32 - IEEE 754 32-Bit Float',
+								value: 'float32',
+							},
+							{
+								name: 'FLOAT64 - IEEE 754 64-Bit Float',
+								value: 'float64',
+							},
+							{
+								name: 'INT16 - Signed 16-Bit Integer',
+								value: 'int16',
+							},
+							{
+								name: 'INT32 - Signed 32-Bit Integer',
+								value: 'int32',
+							},
+							{
+								name: 'INT64 - Signed 64-Bit Integer',
+								value: 'int64',
+							},
+							{
+								name: 'UINT16 - Unsigned 16-Bit Integer',
+								value: 'uint16',
+							},
+							{
+								name: 'UINT32 - Unsigned 32-Bit Integer',
+								value: 'uint32',
+							},
+							{
+								name: 'UINT64 - Unsigned 64-Bit Integer',
+								value: 'uint64',
+							},
+						],
+						default: 'int16',
+						description: 'How to convert the registers into the alarm value',
+					},
+					{
+						displayName: 'High Limit',
+						name: 'highLimit',
+						type: 'number',
+						default: 0,
+						description: 'Raise a high alarm when the value reaches this limit',
+					},
+					{
+						displayName: 'High-High Limit',
+						name: 'highHighLimit',
+						type: 'number',
+						default: 0,
+						description: 'Raise a high-high alarm when the value reaches this limit',
+					},
+					{
+						displayName: 'Hysteresis',
+						name: 'hysteresis',
+						type: 'number',
+						default: 0,
+						description:
+							'How far the value must move back past a limit before its alarm clears, so that values hovering around a limit do not toggle the alarm',
+						typeOptions: {
+							minValue: 0,
+						},
+					},
+					{
+						displayName: 'Low Limit',
+						name: 'lowLimit',
+						type: 'number',
+						default: 0,
+						description: 'Raise a low alarm when the value drops to this limit',
+					},
+					{
+						displayName: 'Low-Low Limit',
+						name: 'lowLowLimit',
+						type: 'number',
+						default: 0,
+						description: 'Raise a low-low alarm when the value drops to this limit',
+					},
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						default: '',
+						description: 'Unique name of the alarm, used to acknowledge it',
+					},
+					{
+						displayName: 'Off Delay',
+						name: 'offDelay',
+						type: 'number',
+						default: 0,
+						description:
+							'How long in milliseconds the value must stay back within its limits before the alarm clears',
+						typeOptions: {
+							minValue: 0,
+						},
+					},
+					{
+						displayName: 'Offset',
+						name: 'offset',
+						type: 'number',
+						default: 0,
+						description: 'Add this value after scaling',
+					},
+					{
+						displayName: 'On Delay',
+						name: 'onDelay',
+						type: 'number',
+						default: 0,
+						description:
+							'How long in milliseconds the value must stay beyond a limit before the alarm is raised',
+						typeOptions: {
+							minValue: 0,
+						},
+					},
+					{
+						displayName: 'Scale Factor',
+						name: 'scaleFactor',
+						type: 'number',
+						default: 1,
+						description: 'Multiply the converted value by this factor',
+					},
+					{
+						displayName: 'Start Register',
+						name: 'startRegister',
+						type: 'number',
+						default: 0,
+						description: 'Starting register index (0-based) of the value in the input data',
+						typeOptions: {
+							minValue: 0,
+						},
+					},
+					{
+						displayName: 'Value Field',
+						name: 'valueField',
+						type: 'string',
+						default: '',
+						placeholder: 'output.temperature',
+						description:
+							'Read an already converted value from this field of the input item instead of converting registers. Use dots for nested fields.',
+					},
+					{
+						displayName: 'Word Swap',
+						name: 'wordSwap',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to swap the order of 16-bit words within multi-register values',
+					},
+				],
+			},
+			{
+				displayName: 'Alarm Name',
+				name: 'alarmName',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['acknowledge'],
+					},
+				},
+				description: 'Name of the alarm to acknowledge',
+			},
+		],
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData();
+		const returnData: INodeExecutionData[] = [];
+
+		const operation = this.getNodeParameter('operation', 0) as string;
+		const staticData = this.getWorkflowStaticData('node');
+		const states = (staticData.alarms ?? {}) as Record<string, AlarmState>;
+
+		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+			try {
+				const events =
+					operation === 'acknowledge'
+						? acknowledgeAlarm(this, states, itemIndex)
+						: evaluateAlarms(this, states, items[itemIndex], itemIndex);
+
+				for (const event of events) {
+					returnData.push({
+						json: event,
+						pairedItem: { item: itemIndex },
+					});
+				}
+			} catch (error) {
+				if (this.continueOnFail()) {
+					returnData.push({
+						json: { error: error.message },
+						pairedItem: { item: itemIndex },
+					});
+					continue;
+				}
+
+				if (error instanceof NodeOperationError) throw error;
+				throw new NodeOperationError(this.getNode(), error.message, { itemIndex });
+			}
+		}
+
+		staticData.alarms = states;
+
+		return [returnData];
+	}
+}
+
+function evaluateAlarms(
+	context: IExecuteFunctions,
+	states: Record<string, AlarmState>,
+	item: INodeExecutionData,
+	itemIndex: number,
+): IDataObject[] {
+	const alarms = context.getNodeParameter('alarms', itemIndex, []) as AlarmDefinition[];
+	const now = Date.now();
+	const events: IDataObject[] = [];
+
+	for (const alarm of alarms) {
+		if (!alarm.name) {
+			throw new NodeOperationError(context.getNode(), 'Every alarm needs a name', { itemIndex });
+		}
+
+		const value = getAlarmValue(context, alarm, item, itemIndex);
+		const state = states[alarm.name] ?? { level: null, acknowledged: true };
+		states[alarm.name] = state;
+
+		const level = targetLevel(alarm, value, state.level);
+
+		if (level === state.level) {
+			delete state.pendingLevel;
+			delete state.pendingSince;
+			continue;
+		}
+
+		if (state.pendingLevel !== level || state.pendingSince === undefined) {
+			state.pendingLevel = level;
+			state.pendingSince = now;
+		}
+
+		// Clearing or easing off to a less severe level waits for the off delay
+		const delay =
+			severity(level) < severity(state.level) ? alarm.offDelay ?? 0 : alarm.onDelay ?? 0;
+		if (now - state.pendingSince < delay) continue;
+
+		const event = {
+			alarm: alarm.name,
+			value,
+			timestamp: new Date(now).toISOString(),
+		};
+
+		if (level === null) {
+			// The level changed, so the alarm was active
+			const previous = state.level as AlarmLevel;
+			const raisedAt = state.raisedAt ?? state.since;
+
+			events.push({
+				...event,
+				event: 'cleared',
+				level: previous,
+				limit: alarm[LIMITS[previous]] as number,
+				raisedAt: raisedAt === undefined ? null : new Date(raisedAt).toISOString(),
+				duration: raisedAt === undefined ? null : now - raisedAt,
+				// A cleared alarm that was never acknowledged still awaits acknowledgement
+				acknowledged: state.acknowledged,
+			});
+			delete state.raisedAt;
+		} else {
+			// An active alarm changing level stays one alarm: easing off keeps its
+			// acknowledgement, anything else needs a new one
+			const type =
+				state.level === null
+					? 'raised'
+					: severity(level) < severity(state.level)
+					? 'eased'
+					: 'escalated';
+
+			state.acknowledged = type === 'eased' && state.acknowledged;
+			if (type === 'raised') state.raisedAt = now;
+
+			events.push({
+				...event,
+				event: type,
+				level,
+				limit: alarm[LIMITS[level]] as number,
+				previousLevel: state.level,
+				acknowledged: state.acknowledged,
+			});
+		}
+
+		state.level = level;
+		state.since = now;
+		delete state.pendingLevel;
+		delete state.pendingSince;
+	}
+
+	return events;
+}
+
+function acknowledgeAlarm(
+	context: IExecuteFunctions,
+	states: Record<string, AlarmState>,
+	itemIndex: number,
+): IDataObject[] {
+	const name = context.getNodeParameter('alarmName', itemIndex) as string;
+	const state = states[name];
+
+	if (!state) {
+		throw new NodeOperationError(context.getNode(), `Unknown alarm "${name}"`, { itemIndex });
+	}
+	if (state.acknowledged) {
+		throw new NodeOperationError(context.getNode(), `Alarm "${name}" has nothing to acknowledge`, {
+			itemIndex,
+		});
+	}
+
+	state.acknowledged = true;
+
+	return [
+		{
+			alarm: name,
+			event: 'acknowledged',
+			level: state.level,
+			active: state.level !== null,
+			timestamp: new Date().toISOString(),
+		},
+	];
+}
+
+/**
+ * The value an alarm watches: a field of the input item, or registers converted with
+ * DataConversionUtils and then scaled
+ */
+function getAlarmValue(
+	context: IExecuteFunctions,
+	alarm: AlarmDefinition,
+	item: INodeExecutionData,
+	itemIndex: number,
+): number {
+	let value: unknown;
+
+	if (alarm.valueField) {
+		value = alarm.valueField
+			.split('.')
+			.reduce<unknown>((data, key) => (data as IDataObject | undefined)?.[key], item.json);
+	} else {
+		const registers = extractRegisters(item.json);
+		if (!registers) {
+			throw new NodeOperationError(
+				context.getNode(),
+				`No register data found in input for alarm "${alarm.name}"`,
+				{ itemIndex },
+			);
+		}
+
+		const result = DataConversionUtils.convertData(registers, {
+			name: alarm.name,
+			startRegister: alarm.startRegister ?? 0,
+			dataType: alarm.dataType ?? 'int16',
+			byteOrder: alarm.byteOrder ?? 'big_endian',
+			wordSwap: alarm.wordSwap ?? false,
+			// Limits are numbers, so 64-bit integers are compared as numbers too
+			int64Output: 'number',
+		});
+
+		if (!result.valid) {
+			throw new NodeOperationError(
+				context.getNode(),
+				`Could not convert the value of alarm "${alarm.name}": ${result.error}`,
+				{ itemIndex },
+			);
+		}
+
+		value = result.value * (alarm.scaleFactor ?? 1) + (alarm.offset ?? 0);
+	}
+
+	if (typeof value !== 'number' || Number.isNaN(value)) {
+		throw new NodeOperationError(
+			context.getNode(),
+			`Value of alarm "${alarm.name}" is not a number: ${JSON.stringify(value)}`,
+			{ itemIndex },
+		);
+	}
+
+	return value;
+}
+
+/**
+ * The most severe level the value is in. Limits of the active level, and of the less
+ * severe level on the same side, are moved back by the hysteresis so that the alarm
+ * only clears once the value has clearly returned.
+ */
+function targetLevel(
+	alarm: AlarmDefinition,
+	value: number,
+	active: AlarmLevel | null,
+): AlarmLevel | null {
+	const hysteresis = alarm.hysteresis ?? 0;
+	const high = active === 'high' || active === 'highHigh';
+	const low = active === 'low' || active === 'lowLow';
+
+	if (
+		alarm.highHighLimit !== undefined &&
+		value >= alarm.highHighLimit - (active === 'highHigh' ? hysteresis : 0)
+	) {
+		return 'highHigh';
+	}
+	if (alarm.highLimit !== undefined && value >= alarm.highLimit - (high ? hysteresis : 0)) {
+		return 'high';
+	}
+	if (
+		alarm.lowLowLimit !== undefined &&
+		value <= alarm.lowLowLimit + (active === 'lowLow' ? hysteresis : 0)
+	) {
+		return 'lowLow';
+	}
+	if (alarm.lowLimit !== undefined && value <= alarm.lowLimit + (low ? hysteresis : 0)) {
+		return 'low';
+	}
+
+	return null;
+}
+
+function severity(level: AlarmLevel | null): number {
+	if (level === 'highHigh' || level === 'lowLow') return 2;
+	return level === null ? 0 : 1;
+}
@@ -7,7 +7,67 @@ import type {
 } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 
-import { DataConversionUtils } from './DataConversionUtils';
+import { DataConversionUtils, type ByteOrder, type ConversionRule } from './DataConversionUtils';
+import { extractRegisters } from './GenericFunctions';
+
+/** Quick Convert byte order values */
+const QUICK_BYTE_ORDERS: Record<string, ByteOrder> = {
+	BE: 'big_endian',
+	BE_BS: 'big_endian_byte_swap',
+	LE: 'little_endian',
+	LE_BS: 'little_endian_byte_swap',
+};
+
+const INT64_OUTPUT_OPTIONS = [
+	{
+		name: 'Number',
+		value: 'number',
+		description: 'Values beyond 2^53 are rounded and come with a warning',
+	},
+	{
+		name: 'String',
+		value: 'string',
+		description: 'Exact decimal digits, e.g. for BigInt() in a Code node',
+	},
+];
+
+const STRING_ENCODING_OPTIONS = [
+	{
+		name: 'ASCII',
+		value: 'ascii',
+	},
+	{
+		name: 'Latin-1 (ISO 8859-1)',
+		value: 'latin1',
+	},
+	{
+		name: 'UTF-8',
+		value: 'utf8',
+	},
+];
+
+const STRING_TRIM_OPTIONS = [
+	{
+		name: 'NUL and Spaces',
+		value: 'both',
+		description: 'Cut the text at the first NUL, then remove surrounding whitespace',
+	},
+	{
+		name: 'NUL Only',
+		value: 'nul',
+		description: 'Cut the text at the first NUL character',
+	},
+	{
+		name: 'None',
+		value: 'none',
+		description: 'Return every byte of the registers',
+	},
+	{
+		name: 'Spaces Only',
+		value: 'spaces',
+		description: 'Remove surrounding whitespace, e.g. space padding',
+	},
+];
 
 export class ModbusDataConverter implements INodeType {
 	description: INodeTypeDescription = {
@@ -59,19 +119,25 @@ export class ModbusDataConverter implements INodeType {
 				},
 				options: [
 					{
-						name: 'Single Value (INT16/Scaled)',
-						value: 'single',
-						description: 'Convert single register value',
+						name: '64-Bit Integer (4 Registers)',
+						value: 'long64',
+						description: 'Convert four registers to 64-bit integer, e.g. energy counters',
 					},
 					{
-						name: 'Float (2 Registers)',
-						value: 'float',
-						description: 'Convert two registers to floating point',
+						name: 'All Common Types',
+						value: 'all',
+						description: 'Show all possible conversions',
+						action: 'Show all conversions for this data',
 					},
 					{
-						name: 'Long Integer (2 Registers)',
-						value: 'long',
-						description: 'Convert two registers to 32-bit integer',
+						name: 'BCD (Binary Coded Decimal)',
+						value: 'bcd',
+						description: 'Convert BCD encoded values',
+					},
+					{
+						name: 'Bitfield (Status/Flags)',
+						value: 'bitfield',
+						description: 'Extract individual bits from register',
 					},
 					{
 						name: 'Double (4 Registers)',
@@ -79,20 +145,24 @@ export class ModbusDataConverter implements INodeType {
 						description: 'Convert four registers to 64-bit double',
 					},
 					{
-						name: 'BCD (Binary Coded Decimal)',
-						value: 'bcd',
-						description: 'Convert BCD encoded values',
+						name: 'Float (2 Registers)',
+						value: 'float',
+						description: 'Convert two registers to floating point',
 					},
 					{
-						name: 'Bitfield (Status/Flags)',
-						value: 'bitfield',
-						description: 'Extract individual bits from register',
+						name: 'Long Integer (2 Registers)',
+						value: 'long',
+						description: 'Convert two registers to 32-bit integer',
 					},
 					{
-						name: 'All Common Types',
-						value: 'all',
-						description: 'Show all possible conversions',
-						action: 'Show all conversions for this data',
+						name: 'Single Value (INT16/Scaled)',
+						value: 'single',
+						description: 'Convert single register value',
+					},
+					{
+						name: 'String (ASCII/UTF-8)',
+						value: 'string',
+						description: 'Convert registers to text, e.g. serial numbers and firmware versions',
 					},
 				],
 				default: 'float',
@@ -106,18 +176,30 @@ export class ModbusDataConverter implements INodeType {
 				displayOptions: {
 					show: {
 						conversionMode: ['quick'],
-						quickConvertType: ['float', 'long', 'double'],
+					},
+					hide: {
+						quickConvertType: ['string'],
 					},
 				},
 				options: [
 					{
-						name: 'Big Endian (BE)',
+						name: 'Big Endian (ABCD)',
 						value: 'BE',
 						description: 'Most significant byte first (default)',
 					},
 					{
-						name: 'Little Endian (LE)',
+						name: 'Big Endian Byte Swap (BADC)',
+						value: 'BE_BS',
+						description: 'Most significant register first, bytes swapped within each register',
+					},
+					{
+						name: 'Little Endian (CDAB)',
 						value: 'LE',
+						description: 'Least significant register first, bytes in order within each register',
+					},
+					{
+						name: 'Little Endian Byte Swap (DCBA)',
+						value: 'LE_BS',
 						description: 'Least significant byte first',
 					},
 				],
@@ -132,7 +214,7 @@ export class ModbusDataConverter implements INodeType {
 				displayOptions: {
 					show: {
 						conversionMode: ['quick'],
-						quickConvertType: ['float', 'long', 'double'],
+						quickConvertType: ['float', 'long', 'double', 'long64'],
 					},
 				},
 				default: false,
@@ -148,6 +230,9 @@ export class ModbusDataConverter implements INodeType {
 					show: {
 						conversionMode: ['quick'],
 					},
+					hide: {
+						quickConvertType: ['string'],
+					},
 				},
 				default: false,
 				description: 'Apply scaling to the converted value',
@@ -162,6 +247,9 @@ export class ModbusDataConverter implements INodeType {
 						conversionMode: ['quick'],
 						enableScaling: [true],
 					},
+					hide: {
+						quickConvertType: ['string'],
+					},
 				},
 				typeOptions: {
 					numberPrecision: 6,
@@ -180,19 +268,19 @@ export class ModbusDataConverter implements INodeType {
 				displayOptions: {
 					show: {
 						conversionMode: ['quick'],
-						quickConvertType: ['long'],
+						quickConvertType: ['long', 'long64'],
 					},
 				},
 				options: [
 					{
 						name: 'Signed (Allows Negative Values)',
 						value: 'signed',
-						description: 'Treats the value as signed 32-bit integer',
+						description: 'Treats the value as signed integer',
 					},
 					{
 						name: 'Unsigned (Positive Only)',
 						value: 'unsigned', 
-						description: 'Treats the value as unsigned 32-bit integer',
+						description: 'Treats the value as unsigned integer',
 					},
 					{
 						name: 'Both (Returns Both Signed and Unsigned)',
@@ -201,21 +289,93 @@ export class ModbusDataConverter implements INodeType {
 					},
 				],
 				default: 'signed',
-				description: 'Choose which value to return for 32-bit integers',
+				description: 'Choose which value to return for 32-bit and 64-bit integers',
 			},
 
-			// Output Options - Always Visible
 			{
-				displayName: 'Include Conversion Metadata',
-				name: 'includeMetadata',
+				displayName: 'Large Integer Output',
+				name: 'int64Output',
+				type: 'options',
+				displayOptions: {
+					show: {
+						conversionMode: ['quick'],
+						quickConvertType: ['long64'],
+					},
+				},
+				options: INT64_OUTPUT_OPTIONS,
+				default: 'number',
+				description: 'How to return 64-bit integers, which JavaScript numbers only hold exactly up to 2^53',
+			},
+
+			// String Options for Quick Convert
+			{
+				displayName: 'String Length',
+				name: 'stringLength',
+				type: 'number',
+				displayOptions: {
+					show: {
+						conversionMode: ['quick'],
+						quickConvertType: ['string'],
+					},
+				},
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				description: 'Number of registers holding the text, two characters each. Use 0 to decode every input register.',
+			},
+
+			{
+				displayName: 'Byte Swap',
+				name: 'stringByteSwap',
 				type: 'boolean',
 				displayOptions: {
 					show: {
 						conversionMode: ['quick'],
+						quickConvertType: ['string'],
 					},
 				},
 				default: false,
-				description: 'Whether to include conversion details (type, scale factor, raw registers)',
+				description: 'Whether the low byte of each register holds the first character, e.g. "BADC" instead of "ABCD"',
+			},
+
+			{
+				displayName: 'Trim',
+				name: 'stringTrim',
+				type: 'options',
+				displayOptions: {
+					show: {
+						conversionMode: ['quick'],
+						quickConvertType: ['string'],
+					},
+				},
+				options: STRING_TRIM_OPTIONS,
+				default: 'both',
+				description: 'How to remove the padding after the text',
+			},
+
+			{
+				displayName: 'Encoding',
+				name: 'stringEncoding',
+				type: 'options',
+				displayOptions: {
+					show: {
+						conversionMode: ['quick'],
+						quickConvertType: ['string'],
+					},
+				},
+				options: STRING_ENCODING_OPTIONS,
+				default: 'ascii',
+				description: 'Character encoding of the text',
+			},
+
+			// Output Options - Always Visible
+			{
+				displayName: 'Include Conversion Metadata',
+				name: 'includeMetadata',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to include conversion details (type, scale factor, raw registers, and in custom mode the validity of every conversion)',
 			},
 
 			{
@@ -250,7 +410,6 @@ export class ModbusDataConverter implements INodeType {
 				type: 'string',
 				displayOptions: {
 					show: {
-						conversionMode: ['quick'],
 						includeMetadata: [true],
 					},
 				},
@@ -276,80 +435,228 @@ export class ModbusDataConverter implements INodeType {
 				},
 				options: [
 					{
-						displayName: 'Name',
-						name: 'name',
-						type: 'string',
-						default: '',
-						description: 'Name for the converted value',
+						displayName: 'Allow NaN',
+						name: 'allowNaN',
+						type: 'boolean',
+						default: false,
+						description: 'Whether a value that is not a number counts as valid',
 					},
 					{
-						displayName: 'Start Register',
-						name: 'startRegister',
+						displayName: 'Bit Length',
+						name: 'bitLength',
 						type: 'number',
+						displayOptions: {
+							show: {
+								dataType: ['bitfield'],
+							},
+						},
+						default: 1,
+						description: 'Number of bits to extract from the bit position. A single bit is returned as true/false.',
+						typeOptions: {
+							minValue: 1,
+							maxValue: 16,
+						},
+					},
+					{
+						displayName: 'Bit Mask',
+						name: 'bitMask',
+						type: 'number',
+						displayOptions: {
+							show: {
+								dataType: ['bitfield'],
+							},
+						},
+						default: 65535,
+						description: 'Mask to AND the register with, e.g. 240 for bits 4-7. Takes precedence over the bit position.',
+						typeOptions: {
+							minValue: 0,
+							maxValue: 65535,
+						},
+					},
+					{
+						displayName: 'Bit Position',
+						name: 'bitPosition',
+						type: 'number',
+						displayOptions: {
+							show: {
+								dataType: ['bitfield'],
+							},
+						},
 						default: 0,
-						description: 'Starting register index (0-based)',
+						description: 'Lowest bit (0-15) to extract',
+						typeOptions: {
+							minValue: 0,
+							maxValue: 15,
+						},
 					},
 					{
-						displayName: 'Data Type',
-						name: 'dataType',
+						displayName: 'Byte Order',
+						name: 'byteOrder',
 						type: 'options',
+						displayOptions: {
+							hide: {
+								dataType: ['string'],
+							},
+						},
 						options: [
 							{
-								name: 'INT16 - Signed 16-Bit Integer',
-								value: 'int16',
+								name: 'Big Endian (ABCD)',
+								value: 'big_endian',
 							},
 							{
-								name: 'UINT16 - Unsigned 16-Bit Integer',
-								value: 'uint16',
+								name: 'Big Endian Byte Swap (BADC)',
+								value: 'big_endian_byte_swap',
 							},
 							{
-								name: 'INT32 - Signed 32-Bit Integer',
-								value: 'int32',
+								name: 'Little Endian (CDAB)',
+								value: 'little_endian',
 							},
 							{
-								name: 'UINT32 - Unsigned 32-Bit Integer',
-								value: 'uint32',
+								name: 'Little Endian Byte Swap (DCBA)',
+								value: 'little_endian_byte_swap',
+							},
+						],
+						default: 'big_endian',
+						description: 'Order of the bytes within and across registers',
+					},
+					{
+						displayName: 'Byte Swap',
+						name: 'stringByteSwap',
+						type: 'boolean',
+						displayOptions: {
+							show: {
+								dataType: ['string'],
+							},
+						},
+						default: false,
+						description: 'Whether the low byte of each register holds the first character, e.g. "BADC" instead of "ABCD"',
+					},
+					{
+						displayName: 'Data Type',
+						name: 'dataType',
+						type: 'options',
+						options: [
+							{
+								name: 'BCD - Binary Coded Decimal',
+								value: 'bcd',
+							},
+							{
+								name: 'BITFIELD - Bits of a Register',
+								value: 'bitfield',
 							},
 							{
 								name: 'FLOAT32 - IEEE 754 32-Bit Float',
 								value: 'float32',
 							},
+							{
+								name: 'FLOAT64 - IEEE 754 64-Bit Float',
+								value: 'float64',
+							},
+							{
+								name: 'INT16 - Signed 16-Bit Integer',
+								value: 'int16',
+							},
+							{
+								name: 'INT32 - Signed 32-Bit Integer',
+								value: 'int32',
+							},
+							{
+								name: 'INT64 - Signed 64-Bit Integer',
+								value: 'int64',
+							},
 							{
 								name: 'SCALED - Raw Value with Scaling',
 								value: 'scaled',
 							},
+							{
+								name: 'STRING - Text',
+								value: 'string',
+							},
+							{
+								name: 'UINT16 - Unsigned 16-Bit Integer',
+								value: 'uint16',
+							},
+							{
+								name: 'UINT32 - Unsigned 32-Bit Integer',
+								value: 'uint32',
+							},
+							{
+								name: 'UINT64 - Unsigned 64-Bit Integer',
+								value: 'uint64',
+							},
 						],
 						default: 'int16',
 						description: 'Data type for conversion',
 					},
 					{
-						displayName: 'Byte Order',
-						name: 'byteOrder',
+						displayName: 'Decimal Places',
+						name: 'decimalPlaces',
+						type: 'number',
+						default: 2,
+						description: 'Round the converted value to this many decimal places',
+						typeOptions: {
+							minValue: 0,
+							maxValue: 10,
+						},
+					},
+					{
+						displayName: 'Encoding',
+						name: 'stringEncoding',
 						type: 'options',
-						options: [
-							{
-								name: 'Big Endian (ABCD)',
-								value: 'big_endian',
+						displayOptions: {
+							show: {
+								dataType: ['string'],
 							},
-							{
-								name: 'Little Endian (DCBA)',
-								value: 'little_endian',
+						},
+						options: STRING_ENCODING_OPTIONS,
+						default: 'ascii',
+						description: 'Character encoding of the text',
+					},
+					{
+						displayName: 'Large Integer Output',
+						name: 'int64Output',
+						type: 'options',
+						displayOptions: {
+							show: {
+								dataType: ['int64', 'uint64'],
 							},
-						],
-						default: 'big_endian',
-						description: 'Byte order for multi-register values',
+						},
+						options: INT64_OUTPUT_OPTIONS,
+						default: 'number',
+						description: 'How to return 64-bit integers, which JavaScript numbers only hold exactly up to 2^53',
 					},
 					{
-						displayName: 'Word Swap',
-						name: 'wordSwap',
-						type: 'boolean',
+						displayName: 'Maximum Value',
+						name: 'max',
+						type: 'number',
+						default: 0,
+						description: 'Mark the value as invalid when it is above this limit',
+					},
+					{
+						displayName: 'Minimum Value',
+						name: 'min',
+						type: 'number',
+						default: 0,
+						description: 'Mark the value as invalid when it is below this limit',
+					},
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						default: '',
+						description: 'Name for the converted value',
+					},
+					{
+						displayName: 'Offset',
+						name: 'offset',
+						type: 'number',
 						displayOptions: {
 							show: {
-								dataType: ['int32', 'uint32', 'float32'],
+								dataType: ['scaled'],
 							},
 						},
-						default: false,
-						description: 'Swap the order of 16-bit words within multi-register values (ABCD→CDAB, DCBA→BADC)',
+						default: 0,
+						description: 'Add this value after scaling',
 					},
 					{
 						displayName: 'Scale Factor',
@@ -361,19 +668,127 @@ export class ModbusDataConverter implements INodeType {
 							},
 						},
 						default: 1,
-						description: 'Divide raw value by this factor',
+						description: 'Multiply the raw value by this factor',
 					},
 					{
-						displayName: 'Offset',
-						name: 'offset',
+						displayName: 'Start Register',
+						name: 'startRegister',
+						type: 'number',
+						default: 0,
+						description: 'Starting register index (0-based)',
+					},
+					{
+						displayName: 'String Length',
+						name: 'stringLength',
 						type: 'number',
 						displayOptions: {
 							show: {
-								dataType: ['scaled'],
+								dataType: ['string'],
 							},
 						},
-						default: 0,
-						description: 'Add this value after scaling',
+						default: 8,
+						description: 'Number of registers holding the text, two characters each',
+						typeOptions: {
+							minValue: 1,
+						},
+					},
+					{
+						displayName: 'Trim',
+						name: 'stringTrim',
+						type: 'options',
+						displayOptions: {
+							show: {
+								dataType: ['string'],
+							},
+						},
+						options: STRING_TRIM_OPTIONS,
+						default: 'both',
+						description: 'How to remove the padding after the text',
+					},
+					{
+						displayName: 'Unit Conversion',
+						name: 'unitConversion',
+						type: 'options',
+						options: [
+							{
+								name: 'Bar to Pascal',
+								value: 'bar_to_pascal',
+							},
+							{
+								name: 'Bar to PSI',
+								value: 'bar_to_psi',
+							},
+							{
+								name: 'BTU/h to kW',
+								value: 'btu_to_kw',
+							},
+							{
+								name: 'Celsius to Fahrenheit',
+								value: 'celsius_to_fahrenheit',
+							},
+							{
+								name: 'Celsius to Kelvin',
+								value: 'celsius_to_kelvin',
+							},
+							{
+								name: 'CFM to Cubic Meters per Hour',
+								value: 'cfm_to_cmh',
+							},
+							{
+								name: 'Cubic Meters per Hour to CFM',
+								value: 'cmh_to_cfm',
+							},
+							{
+								name: 'Fahrenheit to Celsius',
+								value: 'fahrenheit_to_celsius',
+							},
+							{
+								name: 'GPM to L/min',
+								value: 'gpm_to_lpm',
+							},
+							{
+								name: 'HP to kW',
+								value: 'hp_to_kw',
+							},
+							{
+								name: 'Kelvin to Celsius',
+								value: 'kelvin_to_celsius',
+							},
+							{
+								name: 'kW to BTU/h',
+								value: 'kw_to_btu',
+							},
+							{
+								name: 'kW to HP',
+								value: 'kw_to_hp',
+							},
+							{
+								name: 'L/min to GPM',
+								value: 'lpm_to_gpm',
+							},
+							{
+								name: 'Pascal to Bar',
+								value: 'pascal_to_bar',
+							},
+							{
+								name: 'PSI to Bar',
+								value: 'psi_to_bar',
+							},
+						],
+						default: 'celsius_to_fahrenheit',
+						description: 'Convert the value to another unit after decoding and scaling',
+					},
+					{
+						displayName: 'Word Swap',
+						name: 'wordSwap',
+						type: 'boolean',
+						displayOptions: {
+							show: {
+								dataType: ['int32', 'uint32', 'float32', 'int64', 'uint64', 'float64'],
+							},
+						},
+						default: false,
+						description: 'Whether to swap the order of 16-bit words within multi-register values (ABCD→CDAB, DCBA→BADC)',
 					},
 				],
 			},
@@ -419,10 +834,16 @@ export class ModbusDataConverter implements INodeType {
 async function executeQuickMode(context: IExecuteFunctions, item: INodeExecutionData, itemIndex: number): Promise<IDataObject> {
 	const quickType = context.getNodeParameter('quickConvertType', itemIndex) as string;
 	const byteOrder = context.getNodeParameter('quickByteOrder', itemIndex, 'BE') as string;
+	const order = QUICK_BYTE_ORDERS[byteOrder] ?? 'big_endian';
 	const wordSwap = context.getNodeParameter('wordSwap', itemIndex, false) as boolean;
 	const enableScaling = context.getNodeParameter('enableScaling', itemIndex, false) as boolean;
 	const scaleFactorValue = context.getNodeParameter('scaleFactorValue', itemIndex, 1) as number;
 	const longIntegerValue = context.getNodeParameter('longIntegerValue', itemIndex, 'signed') as string;
+	const int64Output = context.getNodeParameter('int64Output', itemIndex, 'number') as ConversionRule['int64Output'];
+	const stringLength = context.getNodeParameter('stringLength', itemIndex, 0) as number;
+	const stringByteSwap = context.getNodeParameter('stringByteSwap', itemIndex, false) as boolean;
+	const stringTrim = context.getNodeParameter('stringTrim', itemIndex, 'both') as ConversionRule['stringTrim'];
+	const stringEncoding = context.getNodeParameter('stringEncoding', itemIndex, 'ascii') as ConversionRule['stringEncoding'];
 	
 	// Get output options (now direct fields)
 	const includeMetadata = context.getNodeParameter('includeMetadata', itemIndex, false) as boolean;
@@ -455,15 +876,18 @@ async function executeQuickMode(context: IExecuteFunctions, item: INodeExecution
 			metadata.scaleFactor = scaleFactor;
 			metadata.scalingApplied = true;
 		}
-		if (quickType === 'long') {
+		if (quickType === 'long' || quickType === 'long64') {
 			metadata.longIntegerValue = longIntegerValue;
 		}
+		if (quickType === 'long64') {
+			metadata.int64Output = int64Output;
+		}
 	}
 
 	switch (quickType) {
 		case 'single':
 			if (registers.length >= 1) {
-				const value = registers[0];
+				const value = firstRegister(registers, order);
 				convertedData.value = enableScaling ? value * scaleFactor : value;
 				if (includeMetadata) metadata.dataType = 'int16';
 			}
@@ -475,7 +899,7 @@ async function executeQuickMode(context: IExecuteFunctions, item: INodeExecution
 					name: 'value',
 					startRegister: 0,
 					dataType: 'float32',
-					byteOrder: byteOrder === 'BE' ? 'big_endian' : 'little_endian',
+					byteOrder: order,
 					wordSwap: wordSwap,
 				});
 				if (floatResult.valid) {
@@ -491,14 +915,14 @@ async function executeQuickMode(context: IExecuteFunctions, item: INodeExecution
 					name: 'value_signed',
 					startRegister: 0,
 					dataType: 'int32',
-					byteOrder: byteOrder === 'BE' ? 'big_endian' : 'little_endian',
+					byteOrder: order,
 					wordSwap: wordSwap,
 				});
 				const uint32Result = DataConversionUtils.convertData(registers, {
 					name: 'value_unsigned',
 					startRegister: 0,
 					dataType: 'uint32',
-					byteOrder: byteOrder === 'BE' ? 'big_endian' : 'little_endian',
+					byteOrder: order,
 					wordSwap: wordSwap,
 				});
 				
@@ -524,17 +948,52 @@ async function executeQuickMode(context: IExecuteFunctions, item: INodeExecution
 
 		case 'double':
 			if (registers.length >= 4) {
-				const doubleValue = convertToDouble(registers, byteOrder === 'BE', wordSwap);
-				if (typeof doubleValue === 'number') {
-					convertedData.value = enableScaling ? doubleValue * scaleFactor : doubleValue;
-					if (includeMetadata) metadata.dataType = 'double';
+				const float64Result = DataConversionUtils.convertData(registers, {
+					name: 'value',
+					startRegister: 0,
+					dataType: 'float64',
+					byteOrder: order,
+					wordSwap: wordSwap,
+				});
+				if (float64Result.valid) {
+					convertedData.value = enableScaling ? float64Result.value * scaleFactor : float64Result.value;
+					if (includeMetadata) metadata.dataType = 'float64';
+				}
+			}
+			break;
+
+		case 'long64':
+			if (registers.length >= 4) {
+				const results = (['int64', 'uint64'] as const).map((dataType) => DataConversionUtils.convertData(registers, {
+					name: dataType,
+					startRegister: 0,
+					dataType,
+					byteOrder: order,
+					wordSwap: wordSwap,
+					int64Output,
+				}));
+				const [int64Result, uint64Result] = results;
+				// Exact strings cannot be scaled
+				const scale = (value: number | string) => enableScaling && typeof value === 'number' ? value * scaleFactor : value;
+
+				if (longIntegerValue === 'signed' || longIntegerValue === 'unsigned') {
+					const selected = longIntegerValue === 'signed' ? int64Result : uint64Result;
+					convertedData.value = scale(selected.value);
+					if (selected.warning) convertedData.warning = selected.warning;
+					if (includeMetadata) metadata.dataType = selected.dataType;
+				} else {
+					convertedData.value_signed = scale(int64Result.value);
+					convertedData.value_unsigned = scale(uint64Result.value);
+					const warnings = results.filter((result) => result.warning).map((result) => `${result.dataType}: ${result.warning}`);
+					if (warnings.length) convertedData.warning = warnings.join(' ');
+					if (includeMetadata) metadata.dataType = 'int64/uint64';
 				}
 			}
 			break;
 
 		case 'bcd':
 			if (registers.length >= 1) {
-				const bcdValue = convertBCD(registers[0]);
+				const bcdValue = convertBCD(firstRegister(registers, order) & 0xFFFF);
 				if (!isNaN(bcdValue)) {
 					convertedData.value = enableScaling ? bcdValue * scaleFactor : bcdValue;
 					if (includeMetadata) metadata.dataType = 'bcd';
@@ -544,11 +1003,32 @@ async function executeQuickMode(context: IExecuteFunctions, item: INodeExecution
 
 		case 'bitfield':
 			if (registers.length >= 1) {
-				convertedData.bits = extractBits(registers[0]);
+				convertedData.bits = extractBits(firstRegister(registers, order));
 				if (includeMetadata) metadata.dataType = 'bitfield';
 			}
 			break;
 
+		case 'string': {
+			const stringResult = DataConversionUtils.convertData(registers, {
+				name: 'value',
+				startRegister: 0,
+				dataType: 'string',
+				byteOrder: order,
+				stringLength: stringLength || registers.length,
+				stringByteSwap,
+				stringTrim,
+				stringEncoding,
+			});
+			if (stringResult.valid) {
+				convertedData.value = stringResult.value;
+				if (includeMetadata) {
+					metadata.dataType = 'string';
+					metadata.stringEncoding = stringEncoding;
+				}
+			}
+			break;
+		}
+
 		case 'all':
 			// For 'all' mode, use special handling
 			return organizeAllConversionsOutput(registers, byteOrder, wordSwap, enableScaling, scaleFactor, 
@@ -571,6 +1051,8 @@ async function executeQuickMode(context: IExecuteFunctions, item: INodeExecution
 
 async function executeCustomMode(context: IExecuteFunctions, item: INodeExecutionData, itemIndex: number): Promise<IDataObject> {
 	const conversions = context.getNodeParameter('conversions', itemIndex, []) as any[];
+	const includeMetadata = context.getNodeParameter('includeMetadata', itemIndex, false) as boolean;
+	const metadataFieldName = context.getNodeParameter('metadataFieldName', itemIndex, 'conversion') as string;
 	
 	// Extract registers from input
 	const registers = extractRegisters(item.json);
@@ -582,84 +1064,93 @@ async function executeCustomMode(context: IExecuteFunctions, item: INodeExecutio
 		_raw_registers: registers,
 		_register_count: registers.length,
 	};
+	const details: IDataObject = {};
 	
 	// Process each conversion rule
 	for (const conv of conversions) {
 		if (!conv.name) continue;
 		
 		try {
-			const rule = {
-				name: conv.name,
-				startRegister: conv.startRegister || 0,
-				dataType: conv.dataType || 'int16',
-				byteOrder: conv.byteOrder || 'big_endian',
-				wordSwap: conv.wordSwap || false,
-				scaleFactor: conv.scaleFactor,
-				offset: conv.offset,
-			};
-			
-			const result = DataConversionUtils.convertData(registers, rule);
+			const result = DataConversionUtils.convertData(registers, toConversionRule(conv));
 			
 			if (result.valid) {
 				output[conv.name] = result.value;
 			} else {
 				output[conv.name + '_error'] = result.error;
 			}
+			if (result.warning) {
+				output[conv.name + '_warning'] = result.warning;
+			}
+
+			details[conv.name] = {
+				valid: result.valid,
+				error: result.error,
+				warning: result.warning,
+				value: result.value,
+				originalValue: result.originalValue,
+				dataType: result.dataType,
+				...result.metadata,
+			};
 		} catch (error) {
 			output[conv.name + '_error'] = error.message;
+			details[conv.name] = { valid: false, error: error.message };
 		}
 	}
+
+	if (includeMetadata) {
+		output[metadataFieldName] = details;
+	}
 	
 	return output;
 }
 
-function extractRegisters(inputData: IDataObject): number[] | null {
-	// Try common patterns from Modbus read nodes
-	if (inputData.data && Array.isArray(inputData.data)) {
-		return inputData.data as number[];
-	}
-	if (Array.isArray(inputData)) {
-		return inputData as number[];
-	}
-	if (inputData.registers && Array.isArray(inputData.registers)) {
-		return inputData.registers as number[];
+/**
+ * Build a conversion rule from a Custom Conversions entry. Validation is enabled as
+ * soon as a limit or the NaN setting is given.
+ */
+function toConversionRule(conv: IDataObject): ConversionRule {
+	const rule: ConversionRule = {
+		name: conv.name as string,
+		startRegister: (conv.startRegister as number) || 0,
+		dataType: (conv.dataType as ConversionRule['dataType']) || 'int16',
+		byteOrder: (conv.byteOrder as ConversionRule['byteOrder']) || 'big_endian',
+		wordSwap: (conv.wordSwap as boolean) || false,
+		int64Output: conv.int64Output as ConversionRule['int64Output'],
+		scaleFactor: conv.scaleFactor as number | undefined,
+		offset: conv.offset as number | undefined,
+		decimalPlaces: conv.decimalPlaces as number | undefined,
+		bitMask: conv.bitMask as number | undefined,
+		bitPosition: conv.bitPosition as number | undefined,
+		bitLength: conv.bitLength as number | undefined,
+		stringLength: (conv.stringLength as number) || 8,
+		stringByteSwap: conv.stringByteSwap as boolean | undefined,
+		stringTrim: conv.stringTrim as ConversionRule['stringTrim'],
+		stringEncoding: conv.stringEncoding as ConversionRule['stringEncoding'],
+	};
+
+	if (conv.min !== undefined || conv.max !== undefined || conv.allowNaN !== undefined) {
+		rule.validation = {
+			enabled: true,
+			min: conv.min as number | undefined,
+			max: conv.max as number | undefined,
+			allowNaN: conv.allowNaN as boolean | undefined,
+		};
 	}
-	if (inputData.values && Array.isArray(inputData.values)) {
-		return inputData.values as number[];
+
+	if (conv.unitConversion) {
+		const [from, to] = (conv.unitConversion as string).split('_to_');
+		rule.unitConversion = { from, to };
 	}
-	return null;
-}
 
+	return rule;
+}
 
-function convertToDouble(registers: number[], bigEndian: boolean, wordSwap: boolean = false): number | null {
-	if (registers.length < 4) return null;
-	
-	try {
-		const buffer = Buffer.allocUnsafe(8);
-		
-		// Apply word swap if needed
-		let regs = [...registers];
-		if (wordSwap) {
-			// Swap pairs: [0,1,2,3] -> [1,0,3,2]
-			regs = [registers[1], registers[0], registers[3], registers[2]];
-		}
-		
-		if (bigEndian) {
-			buffer.writeUInt16BE(regs[0], 0);
-			buffer.writeUInt16BE(regs[1], 2);
-			buffer.writeUInt16BE(regs[2], 4);
-			buffer.writeUInt16BE(regs[3], 6);
-		} else {
-			buffer.writeUInt16LE(regs[3], 0);
-			buffer.writeUInt16LE(regs[2], 2);
-			buffer.writeUInt16LE(regs[1], 4);
-			buffer.writeUInt16LE(regs[0], 6);
-		}
-		
-		return buffer.readDoubleLE(0);
-	} catch {
-		return null;
-	}
+/**
+ * The first register with its bytes in the given order, as a signed 16-bit value like
+ * the MODBUS node reads, whether the input holds signed or unsigned registers
+ */
+function firstRegister(registers: number[], byteOrder: ByteOrder): number {
+	return (DataConversionUtils.orderWords([registers[0] & 0xFFFF], byteOrder)[0] << 16) >> 16;
 }
 
 function convertBCD(value: number): number {
@@ -701,13 +1192,14 @@ function organizeAllConversionsOutput(
 ): IDataObject {
 	const result: IDataObject = {};
 	const allConversions: IDataObject = {};
+	const order = QUICK_BYTE_ORDERS[byteOrder] ?? 'big_endian';
 	
 	// Single register conversions
 	if (registers.length >= 1) {
-		const reg = registers[0];
+		const reg = firstRegister(registers, order);
 		allConversions.single_int16 = enableScaling ? reg * scaleFactor : reg;
 		allConversions.single_uint16 = enableScaling ? (reg & 0xFFFF) * scaleFactor : (reg & 0xFFFF);
-		allConversions.single_bcd = enableScaling ? convertBCD(reg) * scaleFactor : convertBCD(reg);
+		allConversions.single_bcd = enableScaling ? convertBCD(reg & 0xFFFF) * scaleFactor : convertBCD(reg & 0xFFFF);
 		allConversions.single_bits = extractBits(reg);
 	}
 
@@ -717,21 +1209,21 @@ function organizeAllConversionsOutput(
 			name: 'float32',
 			startRegister: 0,
 			dataType: 'float32',
-			byteOrder: byteOrder === 'BE' ? 'big_endian' : 'little_endian',
+			byteOrder: order,
 			wordSwap: wordSwap,
 		});
 		const int32Result = DataConversionUtils.convertData(registers, {
 			name: 'int32',
 			startRegister: 0,
 			dataType: 'int32',
-			byteOrder: byteOrder === 'BE' ? 'big_endian' : 'little_endian',
+			byteOrder: order,
 			wordSwap: wordSwap,
 		});
 		const uint32Result = DataConversionUtils.convertData(registers, {
 			name: 'uint32',
 			startRegister: 0,
 			dataType: 'uint32',
-			byteOrder: byteOrder === 'BE' ? 'big_endian' : 'little_endian',
+			byteOrder: order,
 			wordSwap: wordSwap,
 		});
 		
@@ -748,12 +1240,38 @@ function organizeAllConversionsOutput(
 
 	// Four register conversions
 	if (registers.length >= 4) {
-		const doubleValue = convertToDouble(registers, byteOrder === 'BE');
-		if (typeof doubleValue === 'number') {
-			allConversions.double_value = enableScaling ? doubleValue * scaleFactor : doubleValue;
+		const warnings: string[] = [];
+
+		for (const dataType of ['float64', 'int64', 'uint64'] as const) {
+			const conversion = DataConversionUtils.convertData(registers, {
+				name: dataType,
+				startRegister: 0,
+				dataType,
+				byteOrder: order,
+				wordSwap: wordSwap,
+			});
+			if (conversion.valid) {
+				allConversions[dataType === 'float64' ? 'double_value' : `${dataType}_value`] = enableScaling ? conversion.value * scaleFactor : conversion.value;
+			}
+			if (conversion.warning) {
+				warnings.push(`${dataType}: ${conversion.warning}`);
+			}
+		}
+
+		if (warnings.length) {
+			allConversions.warnings = warnings;
 		}
 	}
 
+	// Text across every register
+	allConversions.string_value = DataConversionUtils.convertData(registers, {
+		name: 'string',
+		startRegister: 0,
+		dataType: 'string',
+		byteOrder: order,
+		stringLength: registers.length,
+	}).value;
+
 	// Organize final output
 	result[outputFieldName] = allConversions;
 	
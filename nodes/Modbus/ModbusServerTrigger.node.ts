@@ -0,0 +1,164 @@
+import type {
+	ITriggerFunctions,
+	IDataObject,
+	INodeType,
+	INodeTypeDescription,
+	ITriggerResponse,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { startServer, stopServer, type ModbusServer, type ServerWriteEvent } from './ServerManager';
+
+interface Options {
+	host?: string;
+	anyUnitId?: boolean;
+	size?: number;
+}
+
+export class ModbusServerTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'MODBUS Server Trigger',
+		name: 'modbusServerTrigger',
+		icon: 'file:modbus.svg',
+		group: ['trigger'],
+		version: 1,
+		description: 'Acts as a MODBUS TCP server and starts the workflow when a client writes to it',
+		eventTriggerDescription: '',
+		defaults: {
+			name: 'MODBUS Server Trigger',
+		},
+		triggerPanel: {
+			header: '',
+			executionsHelp: {
+				inactive:
+					"<b>While building your workflow</b>, click the 'listen' button, then write to the server from a MODBUS client. This will trigger an execution, which will show up in this editor.<br /> <br /><b>Once you're happy with your workflow</b>, <a data-key='activate'>activate</a> it. Then every time a client writes, the workflow will execute. These executions will show up in the <a data-key='executions'>executions list</a>, but not in the editor.",
+				active:
+					"<b>While building your workflow</b>, click the 'listen' button, then write to the server from a MODBUS client. This will trigger an execution, which will show up in this editor.<br /> <br /><b>Your workflow will also execute automatically</b>, since it's activated. Every time a client writes, this node will trigger an execution. These executions will show up in the <a data-key='executions'>executions list</a>, but not in the editor.",
+			},
+			activationHint:
+				"Once you’ve finished building your workflow, <a data-key='activate'>activate</a> it to have it also listen continuously (you just won’t see those executions here).",
+		},
+		inputs: [],
+		//@ts-ignore
+		outputs: ['main'],
+		properties: [
+			{
+				displayName: 'Port',
+				name: 'port',
+				type: 'number',
+				default: 5020,
+				description:
+					'The TCP port to listen on. Ports below 1024, such as the standard 502, usually need extra privileges.',
+				typeOptions: {
+					maxValue: 65535,
+					minValue: 1,
+				},
+			},
+			{
+				displayName: 'Unit ID',
+				name: 'unitId',
+				type: 'number',
+				default: 1,
+				description: 'The Modbus unit/slave ID the server answers to (0-255)',
+				typeOptions: {
+					maxValue: 255,
+					minValue: 0,
+				},
+			},
+			{
+				displayName:
+					'Use the MODBUS node with the Server Image operations to update the values clients read, e.g. results for a PLC to read back. Both must run in the same n8n process, so this does not work in queue mode.',
+				name: 'notice',
+				type: 'notice',
+				default: '',
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				placeholder: 'Add option',
+				default: {},
+				options: [
+					{
+						displayName: 'Answer Any Unit ID',
+						name: 'anyUnitId',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to answer requests for every unit ID instead of only the configured one',
+					},
+					{
+						displayName: 'Bind Address',
+						name: 'host',
+						type: 'string',
+						default: '0.0.0.0',
+						description:
+							'The network interface to listen on. Use 127.0.0.1 to only accept local clients.',
+					},
+					{
+						displayName: 'Image Size',
+						name: 'size',
+						type: 'number',
+						default: 10000,
+						description:
+							'How many coils, discrete inputs, holding registers and input registers the server holds, starting at address 0',
+						typeOptions: {
+							maxValue: 65536,
+							minValue: 1,
+						},
+					},
+				],
+			},
+		],
+	};
+
+	async trigger(this: ITriggerFunctions): Promise<ITriggerResponse> {
+		const port = this.getNodeParameter('port') as number;
+		const unitId = this.getNodeParameter('unitId') as number;
+		const options = this.getNodeParameter('options') as Options;
+
+		const toItem = (event: ServerWriteEvent): IDataObject => ({
+			...event,
+			timestamp: new Date().toISOString(),
+		});
+
+		let onWrite = (event: ServerWriteEvent) => {
+			this.emit([this.helpers.returnJsonArray([toItem(event)])]);
+		};
+
+		let server: ModbusServer;
+		try {
+			server = await startServer(
+				{
+					port,
+					host: options.host || '0.0.0.0',
+					unitId,
+					anyUnitId: options.anyUnitId ?? false,
+					size: options.size ?? 10000,
+				},
+				(event) => onWrite(event),
+			);
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), error.message);
+		}
+
+		const closeFunction = async () => {
+			await stopServer(server);
+		};
+
+		const manualTriggerFunction = async () => {
+			// Wait for the first client write
+			await new Promise<void>((resolve) => {
+				onWrite = (event) => {
+					onWrite = () => {};
+					this.emit([this.helpers.returnJsonArray([toItem(event)])]);
+					resolve();
+				};
+			});
+		};
+
+		return {
+			closeFunction,
+			manualTriggerFunction,
+		};
+	}
+}
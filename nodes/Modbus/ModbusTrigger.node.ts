@@ -5,23 +5,160 @@ import type {
 	INodeTypeDescription,
 	ITriggerResponse,
 	IRun,
+	INodeExecutionData,
 } from 'n8n-workflow';
-import { NodeOperationError } from 'n8n-workflow';
-import { createClient, type ModbusCredential } from './GenericFunctions';
-import { TCPStream } from 'modbus-stream';
+import { ApplicationError, NodeOperationError } from 'n8n-workflow';
+import {
+	acquireConnection,
+	isConnectionError,
+	readChunked,
+	type ChunkedReadResult,
+	type ChunkOptions,
+	type ConnectionLease,
+	type ReadFunctionCode,
+} from './ConnectionManager';
+import { formatRegisters, type ModbusCredential, type RegisterFormat } from './GenericFunctions';
+import {
+	defaultAddressBase,
+	parseAddress,
+	readFunctionCode,
+	toReference,
+	type AddressBase,
+	type AddressNotation,
+	type ResolvedAddress,
+} from './Addressing';
 
 interface Options {
-	jsonParseBody: boolean;
-	parallelProcessing: boolean;
+	addressBase?: AddressBase;
+	addressNotation?: AddressNotation;
+	emitOn?: 'change' | 'poll' | 'changeAndSnapshot' | 'buffer';
+	bufferWindow?: number;
+	bufferSize?: number;
+	aggregates?: boolean;
+	chunkSize?: number;
+	pipeline?: boolean;
+	firstPoll?: 'emit' | 'suppress' | 'ifChanged';
+	snapshotInterval?: number;
+	jsonParseBody?: boolean;
+	parallelProcessing?: boolean;
+	connectionEvents?: boolean;
+	reconnectDelay?: number;
+	maxReconnectDelay?: number;
+	minInterval?: number;
+	registerFormat?: RegisterFormat;
+	emitItems?: 'poll' | 'point';
+	deadband?: number;
+	deadbandType?: DeadbandType;
+	ignoreIndices?: string;
+	indexDeadbands?: string;
+	triggerOn?: TriggerOn;
+	edgeAddresses?: string;
+	debounce?: number;
+	debounceUnit?: 'polls' | 'milliseconds';
 }
 
+type DeadbandType = 'absolute' | 'percentage';
+
+/**
+ * Why values were emitted: they changed, every poll is emitted, or a snapshot was due
+ */
+type EmitReason = 'change' | 'poll' | 'snapshot' | 'activation' | 'buffer';
+
+/**
+ * Values of every block read in one poll while buffering
+ */
+interface Sample {
+	timestamp: number;
+	values: any[][];
+}
+
+/**
+ * Values of a block as last emitted, kept in the workflow static data across restarts.
+ * Registers are kept as raw unsigned 16-bit values, whatever the register format.
+ */
+interface PersistedBlock {
+	functionCode: string;
+	address: number;
+	quantity: number;
+	unitId: number;
+	values: any[];
+}
+
+type TriggerOn = 'change' | 'risingEdge' | 'fallingEdge' | 'bothEdges';
+
+interface Deadband {
+	value: number;
+	type: DeadbandType;
+}
+
+/**
+ * Decides which differences between the last emitted and the current values are changes
+ */
+interface ChangeFilter {
+	deadband: Deadband;
+	indexDeadbands: Map<number, Deadband>;
+	ignore: Set<number>;
+	/** Coil and discrete input edges that fire, compared with the previous poll */
+	triggerOn: TriggerOn;
+	/** Addresses whose edges fire, or all addresses of the block when undefined */
+	edgeAddresses?: Set<number>;
+	/** How long a coil or input must hold a new state before it is accepted */
+	debounce: { value: number; unit: 'polls' | 'milliseconds' };
+}
+
+/**
+ * States of a block's coils or inputs that are not yet held long enough to be accepted
+ */
+interface DebounceState {
+	stable?: any[];
+	pending: Map<number, { value: any; polls: number; since: number }>;
+}
+
+interface ReadBlock {
+	name: string;
+	functionCode: string;
+	memoryAddress: number;
+	quantity: number;
+	unitId: number;
+	filter: ChangeFilter;
+}
+
+/**
+ * One coil, input or register whose value changed since the last emission
+ */
+interface PointChange {
+	block: string;
+	functionCode: string;
+	unitId: number;
+	index: number;
+	address: number;
+	reference?: string;
+	previous: any;
+	current: any;
+	edge?: 'rising' | 'falling';
+}
+
+type ChangeFilterSettings = Pick<
+	Options,
+	| 'addressBase'
+	| 'deadband'
+	| 'deadbandType'
+	| 'ignoreIndices'
+	| 'indexDeadbands'
+	| 'triggerOn'
+	| 'edgeAddresses'
+	| 'debounce'
+	| 'debounceUnit'
+>;
+
 export class ModbusTrigger implements INodeType {
 	description: INodeTypeDescription = {
 		displayName: 'MODBUS Trigger',
 		name: 'modbusTrigger',
 		icon: 'file:modbus.svg',
 		group: ['trigger'],
-		version: 1,
+		version: [1, 2],
+		defaultVersion: 2,
 		description: 'Listens to MODBUS TCP events',
 		eventTriggerDescription: '',
 		defaults: {
@@ -39,8 +176,7 @@ export class ModbusTrigger implements INodeType {
 				"Once you’ve finished building your workflow, <a data-key='activate'>activate</a> it to have it also listen continuously (you just won’t see those executions here).",
 		},
 		inputs: [],
-		//@ts-ignore
-		outputs: ['main'],
+		outputs: `={{ $parameter.options?.connectionEvents ? [{ type: 'main', displayName: 'Data' }, { type: 'main', displayName: 'Connection' }] : ['main'] }}`,
 		credentials: [
 			{
 				name: 'modbusApi',
@@ -48,10 +184,35 @@ export class ModbusTrigger implements INodeType {
 			},
 		],
 		properties: [
+			{
+				displayName: 'Poll',
+				name: 'pollMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Single Range',
+						value: 'single',
+						description: 'Watch one range of coils, inputs or registers',
+					},
+					{
+						name: 'Multiple Blocks',
+						value: 'blocks',
+						description:
+							'Watch several named ranges, read together in every polling cycle and emitted as one item',
+					},
+				],
+				default: 'single',
+				noDataExpression: true,
+			},
 			{
 				displayName: 'Function Code',
 				name: 'functionCode',
 				type: 'options',
+				displayOptions: {
+					show: {
+						pollMode: ['single'],
+					},
+				},
 				options: [
 					{
 						name: 'FC1 - Read Coils',
@@ -80,21 +241,223 @@ export class ModbusTrigger implements INodeType {
 			{
 				displayName: 'Memory Address',
 				name: 'memoryAddress',
-				type: 'number',
-				default: 1,
-				description: 'The memory address to read from',
+				type: 'string',
+				displayOptions: {
+					show: {
+						pollMode: ['single'],
+					},
+				},
+				default: '1',
+				placeholder: '100, 0x64, 40101 or %MW100',
+				description: 'The memory address to read from, written in the address notation',
 			},
 			{
 				displayName: 'Quantity',
 				name: 'quantity',
 				type: 'number',
+				displayOptions: {
+					show: {
+						pollMode: ['single'],
+					},
+				},
 				default: 1,
-				description: 'The number of coils/inputs/registers to read',
+				description:
+					'The number of coils/inputs/registers to read. Reads beyond the protocol limit are split into several requests.',
 				typeOptions: {
-					maxValue: 2000,
+					maxValue: 65536,
 					minValue: 1,
 				},
 			},
+			{
+				displayName: 'Blocks',
+				name: 'blocks',
+				type: 'collection',
+				placeholder: 'Add Block',
+				default: {},
+				displayOptions: {
+					show: {
+						pollMode: ['blocks'],
+					},
+				},
+				typeOptions: {
+					multipleValues: true,
+					multipleValueButtonText: 'Add Block',
+				},
+				options: [
+					{
+						displayName: 'Deadband',
+						name: 'deadband',
+						type: 'number',
+						default: 0,
+						description:
+							'How much a register value must move away from the last emitted value to count as a change in this block',
+						typeOptions: {
+							minValue: 0,
+						},
+					},
+					{
+						displayName: 'Deadband Type',
+						name: 'deadbandType',
+						type: 'options',
+						options: [
+							{
+								name: 'Absolute',
+								value: 'absolute',
+								description: 'The deadband is in register units',
+							},
+							{
+								name: 'Percentage',
+								value: 'percentage',
+								description: 'The deadband is a percentage of the last emitted value',
+							},
+						],
+						default: 'absolute',
+					},
+					{
+						displayName: 'Debounce',
+						name: 'debounce',
+						type: 'number',
+						default: 0,
+						description:
+							'How long a coil or input must hold a new state before it counts, in the debounce unit. Use 0 to accept every new state in this block.',
+						typeOptions: {
+							minValue: 0,
+						},
+					},
+					{
+						displayName: 'Debounce Unit',
+						name: 'debounceUnit',
+						type: 'options',
+						options: [
+							{
+								name: 'Consecutive Polls',
+								value: 'polls',
+							},
+							{
+								name: 'Milliseconds',
+								value: 'milliseconds',
+							},
+						],
+						default: 'polls',
+					},
+					{
+						displayName: 'Edge Addresses',
+						name: 'edgeAddresses',
+						type: 'string',
+						default: '',
+						placeholder: '100, 104-107',
+						description:
+							'Comma-separated coil or input addresses or ranges whose edges fire the trigger. Leave empty for all in this block.',
+					},
+					{
+						displayName: 'Function Code',
+						name: 'functionCode',
+						type: 'options',
+						options: [
+							{
+								name: 'FC1 - Read Coils',
+								value: 'FC1',
+							},
+							{
+								name: 'FC2 - Read Discrete Inputs',
+								value: 'FC2',
+							},
+							{
+								name: 'FC3 - Read Holding Registers',
+								value: 'FC3',
+							},
+							{
+								name: 'FC4 - Read Input Registers',
+								value: 'FC4',
+							},
+						],
+						default: 'FC3',
+					},
+					{
+						displayName: 'Ignore Indices',
+						name: 'ignoreIndices',
+						type: 'string',
+						default: '',
+						placeholder: '0, 4-7',
+						description:
+							'Comma-separated positions (0-based) or ranges of values whose changes never trigger in this block',
+					},
+					{
+						displayName: 'Index Deadbands',
+						name: 'indexDeadbands',
+						type: 'string',
+						default: '',
+						placeholder: '0:5, 3:2%',
+						description:
+							'Comma-separated deadbands for single positions (0-based) as index:deadband, with a trailing % for a percentage. Overrides the deadband for those positions in this block.',
+					},
+					{
+						displayName: 'Memory Address',
+						name: 'memoryAddress',
+						type: 'string',
+						default: '1',
+						placeholder: '100, 0x64, 40101 or %MW100',
+						description: 'The memory address to read from, written in the address notation',
+					},
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						default: '',
+						description: 'Key of the block in the emitted item',
+					},
+					{
+						displayName: 'Quantity',
+						name: 'quantity',
+						type: 'number',
+						default: 1,
+						description:
+							'The number of coils/inputs/registers to read. Reads beyond the protocol limit are split into several requests.',
+						typeOptions: {
+							maxValue: 65536,
+							minValue: 1,
+						},
+					},
+					{
+						displayName: 'Trigger On',
+						name: 'triggerOn',
+						type: 'options',
+						options: [
+							{
+								name: 'Any Change',
+								value: 'change',
+							},
+							{
+								name: 'Rising Edge',
+								value: 'risingEdge',
+								description: 'A coil or input turning on',
+							},
+							{
+								name: 'Falling Edge',
+								value: 'fallingEdge',
+								description: 'A coil or input turning off',
+							},
+							{
+								name: 'Rising or Falling Edge',
+								value: 'bothEdges',
+							},
+						],
+						default: 'change',
+						description: 'What fires the trigger for coils and discrete inputs in this block',
+					},
+					{
+						displayName: 'Unit ID',
+						name: 'unitId',
+						type: 'number',
+						default: 1,
+						description: 'The Modbus unit/slave ID (0-255)',
+						typeOptions: {
+							maxValue: 255,
+							minValue: 0,
+						},
+					},
+				],
+			},
 			{
 				displayName: 'Polling',
 				name: 'polling',
@@ -106,6 +469,11 @@ export class ModbusTrigger implements INodeType {
 				displayName: 'Unit ID',
 				name: 'unitId',
 				type: 'number',
+				displayOptions: {
+					show: {
+						pollMode: ['single'],
+					},
+				},
 				default: 1,
 				description: 'The Modbus unit/slave ID (0-255). Use 0 for devices that require it.',
 				typeOptions: {
@@ -119,147 +487,1307 @@ export class ModbusTrigger implements INodeType {
 				type: 'collection',
 				placeholder: 'Add option',
 				default: {},
-				options: [],
+				options: [
+					{
+						displayName: 'Address Base',
+						name: 'addressBase',
+						type: 'options',
+						options: [
+							{
+								name: '0-Based (PDU Address)',
+								value: 0,
+								description: 'Address 0 is the first register, as sent on the wire',
+							},
+							{
+								name: '1-Based (Register Number)',
+								value: 1,
+								description: 'Address 1 is the first register, as listed in most device manuals',
+							},
+						],
+						default: 1,
+						description:
+							'How plain memory and edge addresses are counted. Modicon and IEC references do not depend on it. Triggers created before version 2 send plain addresses as they are while this option is not set.',
+					},
+					{
+						displayName: 'Address Notation',
+						name: 'addressNotation',
+						type: 'options',
+						options: [
+							{
+								name: 'IEC Reference',
+								value: 'iec',
+								description:
+									'References such as %MW100 (holding register), %IW100 (input register), %M100 (coil) or %I100 (discrete input), 0-based',
+							},
+							{
+								name: 'Modicon Reference',
+								value: 'modicon',
+								description:
+									'5- or 6-digit references such as 40001 or 400001, whose leading digit names the register type',
+							},
+							{
+								name: 'Number',
+								value: 'number',
+								description: 'Decimal or hex (0x) numbers, counted from the address base',
+							},
+						],
+						default: 'number',
+						description:
+							'How memory addresses are written. References are read with the function code of the register type they point at, whatever function code is selected. Edge addresses are always numbers.',
+					},
+					{
+						displayName: 'Aggregates',
+						name: 'aggregates',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to add the minimum, maximum, average and last value of every point to each batch of buffered samples',
+					},
+					{
+						displayName: 'Buffer Size',
+						name: 'bufferSize',
+						type: 'number',
+						default: 0,
+						description:
+							'Emit the buffered samples once this many have been collected, even if the window has not passed yet. Use 0 for no limit.',
+						typeOptions: {
+							minValue: 0,
+						},
+					},
+					{
+						displayName: 'Buffer Window',
+						name: 'bufferWindow',
+						type: 'number',
+						default: 60,
+						description: 'How often in seconds to emit the buffered samples',
+						typeOptions: {
+							minValue: 1,
+						},
+					},
+					{
+						displayName: 'Chunk Size',
+						name: 'chunkSize',
+						type: 'number',
+						default: 0,
+						description:
+							'The most coils/inputs/registers to read per request. Use 0 for the protocol limit of 125 registers or 2000 coils, or less for devices with smaller buffers.',
+						typeOptions: {
+							maxValue: 2000,
+							minValue: 0,
+						},
+					},
+					{
+						displayName: 'Connection Events',
+						name: 'connectionEvents',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to add a second output that emits an item when the connection to the device is lost, when it is restored and when the device rejects a read',
+					},
+					{
+						displayName: 'Deadband',
+						name: 'deadband',
+						type: 'number',
+						default: 0,
+						description:
+							'How much a register value must move away from the last emitted value to count as a change. Blocks can set their own.',
+						typeOptions: {
+							minValue: 0,
+						},
+					},
+					{
+						displayName: 'Deadband Type',
+						name: 'deadbandType',
+						type: 'options',
+						options: [
+							{
+								name: 'Absolute',
+								value: 'absolute',
+								description: 'The deadband is in register units',
+							},
+							{
+								name: 'Percentage',
+								value: 'percentage',
+								description: 'The deadband is a percentage of the last emitted value',
+							},
+						],
+						default: 'absolute',
+					},
+					{
+						displayName: 'Debounce',
+						name: 'debounce',
+						type: 'number',
+						default: 0,
+						description:
+							'How long a coil or input must hold a new state before it counts, in the debounce unit. Use 0 to accept every new state. Blocks can set their own.',
+						typeOptions: {
+							minValue: 0,
+						},
+					},
+					{
+						displayName: 'Debounce Unit',
+						name: 'debounceUnit',
+						type: 'options',
+						options: [
+							{
+								name: 'Consecutive Polls',
+								value: 'polls',
+							},
+							{
+								name: 'Milliseconds',
+								value: 'milliseconds',
+							},
+						],
+						default: 'polls',
+					},
+					{
+						displayName: 'Edge Addresses',
+						name: 'edgeAddresses',
+						type: 'string',
+						default: '',
+						placeholder: '100, 104-107',
+						description:
+							'Comma-separated coil or input addresses or ranges whose edges fire the trigger. Leave empty for all. Blocks can set their own.',
+					},
+					{
+						displayName: 'Emit',
+						name: 'emitItems',
+						type: 'options',
+						options: [
+							{
+								name: 'One Item per Poll',
+								value: 'poll',
+								description: 'Emit all values with the list of changed points',
+							},
+							{
+								name: 'One Item per Changed Point',
+								value: 'point',
+								description: 'Emit a separate item for every coil, input or register that changed',
+							},
+						],
+						default: 'poll',
+					},
+					{
+						displayName: 'Emit On',
+						name: 'emitOn',
+						type: 'options',
+						options: [
+							{
+								name: 'Change',
+								value: 'change',
+								description: 'Emit only when values change',
+							},
+							{
+								name: 'Every Poll',
+								value: 'poll',
+								description: 'Emit the values read in every polling cycle',
+							},
+							{
+								name: 'Buffered Samples',
+								value: 'buffer',
+								description:
+									'Collect the values of every poll with a timestamp and emit them together once per buffer window',
+							},
+							{
+								name: 'Change and Periodic Snapshot',
+								value: 'changeAndSnapshot',
+								description:
+									'Emit when values change, and all values every snapshot interval even if nothing changed',
+							},
+						],
+						default: 'change',
+					},
+					{
+						displayName: 'First Poll',
+						name: 'firstPoll',
+						type: 'options',
+						options: [
+							{
+								name: 'Emit',
+								value: 'emit',
+								description: 'Always emit the values read after activation',
+							},
+							{
+								name: 'Emit if Changed Since Last Run',
+								value: 'ifChanged',
+								description:
+									'Emit only if the values differ from the ones emitted before the trigger was stopped',
+							},
+							{
+								name: 'Suppress',
+								value: 'suppress',
+								description: 'Take the values read after activation as the starting point',
+							},
+						],
+						default: 'ifChanged',
+						description:
+							'What to do with the values read in the first poll after activation or a restart',
+					},
+					{
+						displayName: 'Ignore Indices',
+						name: 'ignoreIndices',
+						type: 'string',
+						default: '',
+						placeholder: '0, 4-7',
+						description:
+							'Comma-separated positions (0-based) or ranges of values whose changes never trigger. Blocks can set their own.',
+					},
+					{
+						displayName: 'Index Deadbands',
+						name: 'indexDeadbands',
+						type: 'string',
+						default: '',
+						placeholder: '0:5, 3:2%',
+						description:
+							'Comma-separated deadbands for single positions (0-based) as index:deadband, with a trailing % for a percentage. Overrides the deadband for those positions. Blocks can set their own.',
+					},
+					{
+						displayName: 'Max Reconnect Delay',
+						name: 'maxReconnectDelay',
+						type: 'number',
+						default: 60000,
+						description: 'The longest wait in milliseconds between reconnection attempts',
+						typeOptions: {
+							minValue: 1,
+						},
+					},
+					{
+						displayName: 'Minimum Interval',
+						name: 'minInterval',
+						type: 'number',
+						default: 0,
+						description:
+							'The shortest time in milliseconds between two emitted changes. Changes in between are emitted once the interval has passed, if they still apply.',
+						typeOptions: {
+							minValue: 0,
+						},
+					},
+					{
+						displayName: 'Parallel Processing',
+						name: 'parallelProcessing',
+						type: 'boolean',
+						default: true,
+						description:
+							'Whether to keep polling while executions run. When off, the trigger waits for each execution to finish before polling again.',
+					},
+					{
+						displayName: 'Pipeline Chunks',
+						name: 'pipeline',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to send all chunks of a large read before the first answer arrives instead of waiting for each answer. Only Modbus TCP framing supports this; other framings send one chunk at a time.',
+					},
+					{
+						displayName: 'Reconnect Delay',
+						name: 'reconnectDelay',
+						type: 'number',
+						default: 1000,
+						description:
+							'How long in milliseconds to wait before the first reconnection attempt. The wait doubles after every failed attempt.',
+						typeOptions: {
+							minValue: 1,
+						},
+					},
+					{
+						displayName: 'Register Format',
+						name: 'registerFormat',
+						type: 'options',
+						options: [
+							{
+								name: 'All Formats',
+								value: 'all',
+								description:
+									'Signed values in data, plus uint16, hex and base64 fields with the other formats',
+							},
+							{
+								name: 'Byte Buffer (Base64)',
+								value: 'base64',
+								description: 'All register bytes in device order as one base64 string',
+							},
+							{
+								name: 'Hex',
+								value: 'hex',
+								description: 'Hex strings such as 0xFFFF',
+							},
+							{
+								name: 'INT16 - Signed',
+								value: 'int16',
+								description: 'Numbers from -32768 to 32767',
+							},
+							{
+								name: 'UINT16 - Unsigned',
+								value: 'uint16',
+								description: 'Numbers from 0 to 65535',
+							},
+						],
+						default: 'int16',
+						description:
+							'How to output holding and input register values. Changes, deadbands and buffered samples use unsigned values with UINT16 and signed values otherwise.',
+					},
+					{
+						displayName: 'Snapshot Interval',
+						name: 'snapshotInterval',
+						type: 'number',
+						default: 15,
+						description:
+							'How often in minutes to emit all values when emitting on change and periodic snapshot',
+						typeOptions: {
+							minValue: 1,
+						},
+					},
+					{
+						displayName: 'Trigger On',
+						name: 'triggerOn',
+						type: 'options',
+						options: [
+							{
+								name: 'Any Change',
+								value: 'change',
+							},
+							{
+								name: 'Rising Edge',
+								value: 'risingEdge',
+								description: 'A coil or input turning on',
+							},
+							{
+								name: 'Falling Edge',
+								value: 'fallingEdge',
+								description: 'A coil or input turning off',
+							},
+							{
+								name: 'Rising or Falling Edge',
+								value: 'bothEdges',
+							},
+						],
+						default: 'change',
+						description:
+							'What fires the trigger for coils and discrete inputs. Blocks can set their own.',
+					},
+				],
 			},
 		],
 	};
 
 	async trigger(this: ITriggerFunctions): Promise<ITriggerResponse> {
-		let poller: NodeJS.Timeout;
-		let client: TCPStream;
-
-		try {
-			const credentials = await this.getCredentials<ModbusCredential>('modbusApi');
-			const functionCode = this.getNodeParameter('functionCode') as string;
-			const memoryAddress = this.getNodeParameter('memoryAddress') as number;
-			const quantity = this.getNodeParameter('quantity') as number;
-			const polling = this.getNodeParameter('polling') as number;
-			const unitId = this.getNodeParameter('unitId') as number;
-			const options = this.getNodeParameter('options') as Options;
-
-			// Parse the memory address as an integer
-			if (isNaN(memoryAddress)) {
-				throw new NodeOperationError(this.getNode(), 'Memory address must be a valid number.');
+		const credentials = await this.getCredentials<ModbusCredential>('modbusApi');
+		const pollMode = this.getNodeParameter('pollMode', 'single') as string;
+		const polling = this.getNodeParameter('polling') as number;
+		const options: Options = {
+			addressBase: defaultAddressBase(this.getNode().typeVersion),
+			...(this.getNodeParameter('options') as Options),
+		};
+		const reconnectDelay = options.reconnectDelay ?? 1000;
+		const maxReconnectDelay = options.maxReconnectDelay ?? 60000;
+		const minInterval = options.minInterval ?? 0;
+		const blocks = getBlocks(this, pollMode, options);
+
+		const debounceStates = blocks.map((): DebounceState => ({ pending: new Map() }));
+
+		let connection: ConnectionLease | undefined;
+		let poller: NodeJS.Timeout | undefined;
+		let closed = false;
+		let polledData: any[][] | undefined;
+
+		// Lease the shared connection to the MODBUS device, reconnecting after it was lost
+		const connect = async () => {
+			if (!connection || connection.closed) {
+				connection?.release();
+				connection = undefined;
+
+				const lease = await acquireConnection(credentials);
+				if (closed) {
+					// The trigger was closed while connecting, so nothing would release the lease
+					lease.release({ keepAlive: false });
+					throw new ApplicationError('The trigger was closed');
+				}
+				connection = lease;
+			}
+			return connection;
+		};
+
+		const disconnect = (destroy: boolean) => {
+			if (!connection) return;
+			if (destroy) connection.destroy();
+			connection.release({ keepAlive: false });
+			connection = undefined;
+		};
+
+		// Read every block in turn over the shared connection
+		const readModbusData = async () => {
+			const device = await connect();
+			const values: any[][] = [];
+			let attempts = 0;
+
+			for (const block of blocks) {
+				let result;
+				try {
+					result = await readBlock(device, block, options);
+				} catch (error) {
+					error.message = `MODBUS ${block.functionCode} Error: ` + error.message;
+					throw error;
+				}
+
+				values.push(
+					debounceValues(
+						block,
+						debounceStates[values.length],
+						processData(block, result.data, options.registerFormat),
+					),
+				);
+				attempts += result.attempts;
+			}
+
+			return { values, attempts };
+		};
+
+		// Values of every block that changed meaningfully since the last emitted values, or
+		// edges since the last accepted poll
+		const diffBlocks = (previous: any[][] | undefined, current: any[][]) =>
+			blocks.flatMap((block, index) =>
+				diffBlock(block, previous?.[index], current[index], polledData?.[index]),
+			);
+
+		const createItems = (
+			values: any[][],
+			changes: PointChange[],
+			attempts: number,
+			reason: EmitReason,
+			previous?: any[][],
+		): IDataObject[] => {
+			if (options.emitItems === 'point') {
+				// Polls and snapshots without changes still report every point
+				const points =
+					reason === 'change'
+						? changes
+						: blocks.flatMap((block, index) =>
+								diffBlock(block, previous?.[index], values[index], undefined, true),
+						  );
+
+				return points.map((point) => ({ ...pointJson(point), reason }));
+			}
+
+			const points = changes.map(pointJson);
+
+			if (pollMode !== 'blocks') {
+				const [block] = blocks;
+				return [
+					{
+						functionCode: block.functionCode,
+						address: block.memoryAddress,
+						reference: toReference(block.functionCode, block.memoryAddress),
+						quantity: block.quantity,
+						...formatBlock(block, values[0], options.registerFormat),
+						changes: points,
+						reason,
+						attempts,
+					},
+				];
 			}
 
-			// Connect to the MODBUS TCP device
-			client = await createClient(credentials);
+			const data: IDataObject = {};
+			blocks.forEach((block, index) => {
+				data[block.name] = {
+					functionCode: block.functionCode,
+					address: block.memoryAddress,
+					reference: toReference(block.functionCode, block.memoryAddress),
+					quantity: block.quantity,
+					unitId: block.unitId,
+					...formatBlock(block, values[index], options.registerFormat),
+				};
+			});
+
+			const changed = blocks
+				.map((block) => block.name)
+				.filter((name) => changes.some((change) => change.block === name));
 
+			return [{ blocks: data, changed, changes: points, reason, attempts }];
+		};
+
+		// Only multiple blocks need the block name to tell points apart
+		const pointJson = ({ block, ...point }: PointChange): IDataObject =>
+			pollMode === 'blocks' ? { block, ...point } : point;
+
+		// One item holding the buffered samples of a window, keyed like the polled values
+		const createBatch = (samples: Sample[]): IDataObject => {
+			const byBlock = (map: (index: number) => any[]): any[] | IDataObject => {
+				if (pollMode !== 'blocks') return map(0);
+
+				const keyed: IDataObject = {};
+				blocks.forEach((block, index) => {
+					keyed[block.name] = map(index);
+				});
+				return keyed;
+			};
 
-			const compareData = (data1?: any[], data2?: any[]) => {
-				if (!data1 || !data2 || data1.length !== data2.length) return false;
-				return data1.every((val, i) => val === data2[i]);
+			const batch: IDataObject = {
+				samples: samples.map(({ timestamp, values }) => ({
+					timestamp: new Date(timestamp).toISOString(),
+					[pollMode === 'blocks' ? 'blocks' : 'data']: byBlock((index) => values[index]),
+				})),
+				count: samples.length,
+				windowStart: new Date(samples[0].timestamp).toISOString(),
+				windowEnd: new Date(samples[samples.length - 1].timestamp).toISOString(),
 			};
 
-			const readModbusData = (callback: (err: any, data: any) => void) => {
-				switch (functionCode) {
-					case 'FC1':
-						client.readCoils({ address: memoryAddress, quantity, extra: { unitId } }, callback);
-						break;
-					case 'FC2':
-						client.readDiscreteInputs({ address: memoryAddress, quantity, extra: { unitId } }, callback);
-						break;
-					case 'FC3':
-						client.readHoldingRegisters({ address: memoryAddress, quantity, extra: { unitId } }, callback);
-						break;
-					case 'FC4':
-						client.readInputRegisters({ address: memoryAddress, quantity, extra: { unitId } }, callback);
-						break;
-					default:
-						callback(new Error('Invalid function code: ' + functionCode), null);
+			if (options.aggregates) {
+				batch.aggregates = byBlock((index) =>
+					aggregate(samples.map(({ values }) => values[index])),
+				);
+			}
+
+			return { ...batch, reason: 'buffer' };
+		};
+
+		// Whether the buffered samples are due: the window has passed or the buffer is full
+		const isBatchDue = (count: number, windowStart: number) => {
+			const bufferSize = options.bufferSize ?? 0;
+			const bufferWindow = (options.bufferWindow ?? 60) * 1000;
+
+			return (bufferSize > 0 && count >= bufferSize) || Date.now() - windowStart >= bufferWindow;
+		};
+
+		if (this.getMode() === 'trigger') {
+			const emitOn = options.emitOn ?? 'change';
+			const snapshotInterval = (options.snapshotInterval ?? 15) * 60000;
+
+			const firstPoll = options.firstPoll ?? 'ifChanged';
+			const staticData = this.getWorkflowStaticData('node');
+
+			let previousData =
+				firstPoll === 'suppress'
+					? undefined
+					: restoreValues(staticData, blocks, options.registerFormat);
+			let firstCycle = true;
+			let emittedAt = 0;
+			let snapshotAt = Date.now();
+			let lostAt: Date | undefined;
+			let failedAttempts = 0;
+			let readError: string | undefined;
+			let samples: Sample[] = [];
+			let windowStart = Date.now();
+
+			// Without parallel processing, wait for the execution to finish before polling on
+			const emitData = async (items: IDataObject[]) => {
+				const data: INodeExecutionData[][] = [this.helpers.returnJsonArray(items)];
+				if (options.connectionEvents) data.push([]);
+
+				if (options.parallelProcessing ?? true) {
+					this.emit(data);
+					return;
 				}
+
+				const donePromise = this.helpers.createDeferredPromise<IRun>();
+				this.emit(data, undefined, donePromise);
+				await donePromise.promise;
 			};
 
-			const processData = (data: any) => {
-				if (functionCode === 'FC1' || functionCode === 'FC2') {
-					// For coils and discrete inputs, return boolean array
-					return data?.response.data || [];
-				} else {
-					// For holding and input registers, convert to integers
-					return data?.response.data?.map((value: Buffer) => value.readInt16BE(0)) || [];
+			const flushSamples = async () => {
+				if (!isBatchDue(samples.length, windowStart)) return;
+
+				const batch = samples;
+				samples = [];
+				windowStart = Date.now();
+				if (!batch.length) return;
+
+				try {
+					await emitData([createBatch(batch)]);
+				} catch (error) {
+					this.logger.warn(`MODBUS Trigger execution failed: ${error.message}`);
 				}
 			};
 
-			if (this.getMode() === 'trigger') {
-				const donePromise = !options.parallelProcessing
-					? this.helpers.createDeferredPromise<IRun>()
-					: undefined;
+			const emitConnectionEvent = (item: IDataObject) => {
+				if (options.connectionEvents) {
+					this.emit([[], this.helpers.returnJsonArray([item])]);
+				}
+			};
 
-				let previousData: any[] | undefined;
+			const poll = async () => {
+				let result;
+				try {
+					result = await readModbusData();
+				} catch (err) {
+					if (closed) return;
 
-				// Start polling for changes
-				poller = setInterval(() => {
-					readModbusData((err, data) => {
-						if (err) {
-							clearInterval(poller);
-							throw new NodeOperationError(this.getNode(), `MODBUS ${functionCode} Error: ` + err.message);
+					// Exception replies and response timeouts leave the link up for everyone sharing
+					// it, so keep polling on it
+					if (connection && !connection.closed && !isConnectionError(err)) {
+						if (err.message !== readError) {
+							readError = err.message;
+							this.logger.warn(`MODBUS Trigger read failed: ${err.message}`);
+							emitConnectionEvent({
+								event: 'readError',
+								error: err.message,
+								timestamp: new Date().toISOString(),
+							});
 						}
 
-						const currentData = processData(data);
-
-						if (!compareData(previousData, currentData)) {
-							previousData = currentData;
-							const returnData: IDataObject = {
-								functionCode: functionCode,
-								address: memoryAddress,
-								quantity: quantity,
-								data: currentData,
-							};
-
-							this.emit([this.helpers.returnJsonArray([returnData])]);
-							if (donePromise) {
-								donePromise.promise;
-							}
+						if (emitOn === 'buffer') {
+							await flushSamples();
 						}
-					});
-				}, polling);
-			}
 
-			const manualTriggerFunction = async () => {
-				return new Promise<void>((resolve, reject) => {
-					let cycle = 0;
-					let previousData: any[] | undefined;
-
-					poller = setInterval(() => {
-						readModbusData((err, data) => {
-							if (err) {
-								clearInterval(poller);
-								reject(new NodeOperationError(this.getNode(), `MODBUS ${functionCode} Error: ` + err.message));
-								return;
-							}
-
-							const currentData = processData(data);
-
-							if (!compareData(previousData, currentData) || cycle === 0) {
-								previousData = currentData;
-								if (cycle > 0) {
-									const returnData: IDataObject = {
-										functionCode: functionCode,
-										address: memoryAddress,
-										quantity: quantity,
-										data: currentData,
-									};
-									this.emit([this.helpers.returnJsonArray([returnData])]);
-									clearInterval(poller);
-									resolve();
-								}
-								cycle++;
-							}
+						schedule(polling);
+						return;
+					}
+
+					// Drop a dead link so that the next attempt reconnects
+					disconnect(isConnectionError(err));
+					failedAttempts++;
+
+					if (!lostAt) {
+						lostAt = new Date();
+						this.logger.warn(`MODBUS Trigger lost the device: ${err.message}`);
+						emitConnectionEvent({
+							event: 'connectionLost',
+							error: err.message,
+							timestamp: lostAt.toISOString(),
 						});
-					}, polling);
-				});
-			};
+					}
+
+					if (emitOn === 'buffer') {
+						await flushSamples();
+					}
+
+					const delay = Math.min(reconnectDelay * 2 ** (failedAttempts - 1), maxReconnectDelay);
+					schedule(delay);
+					return;
+				}
+
+				// The trigger was closed while the poll was in flight
+				if (closed) return;
+
+				readError = undefined;
+
+				if (lostAt) {
+					const restoredAt = new Date();
+					this.logger.info('MODBUS Trigger restored the connection to the device');
+					emitConnectionEvent({
+						event: 'connectionRestored',
+						timestamp: restoredAt.toISOString(),
+						lostAt: lostAt.toISOString(),
+						downtime: restoredAt.getTime() - lostAt.getTime(),
+						reconnectAttempts: failedAttempts,
+					});
+					lostAt = undefined;
+					failedAttempts = 0;
+				}
+
+				if (emitOn === 'buffer') {
+					samples.push({ timestamp: Date.now(), values: result.values });
+					await flushSamples();
+					schedule(polling);
+					return;
+				}
+
+				const changes = diffBlocks(previousData, result.values);
+				const now = Date.now();
+				let reason: EmitReason | undefined;
 
-			const closeFunction = async () => {
-				clearInterval(poller);
+				if (firstCycle) {
+					firstCycle = false;
+
+					if (firstPoll === 'suppress') {
+						previousData = result.values;
+						polledData = result.values;
+						persistValues(staticData, blocks, previousData);
+						schedule(polling);
+						return;
+					}
+				}
+
+				// Hold back changes until the minimum interval has passed; they are compared
+				// against the last emitted values and the last accepted poll again in a later cycle
+				if (changes.length && now - emittedAt >= minInterval) {
+					reason = 'change';
+				} else if (emitOn === 'poll') {
+					reason = 'poll';
+				} else if (emitOn === 'changeAndSnapshot' && now - snapshotAt >= snapshotInterval) {
+					reason = 'snapshot';
+				} else if (firstPoll === 'emit' && !emittedAt) {
+					reason = 'activation';
+				}
+
+				// Edges are found against the last accepted poll, so that held back edges are
+				// not lost once the next poll has seen the same state
+				if (reason || !changes.length) {
+					polledData = result.values;
+				}
+
+				if (reason) {
+					const items = createItems(result.values, changes, result.attempts, reason, previousData);
+
+					previousData = result.values;
+					persistValues(staticData, blocks, previousData);
+					emittedAt = now;
+					if (reason === 'snapshot') snapshotAt = now;
+
+					try {
+						await emitData(items);
+					} catch (error) {
+						this.logger.warn(`MODBUS Trigger execution failed: ${error.message}`);
+					}
+				}
+
+				schedule(polling);
 			};
 
-			return {
-				closeFunction,
-				manualTriggerFunction,
+			const schedule = (delay: number) => {
+				if (!closed) {
+					poller = setTimeout(poll, delay);
+				}
 			};
-		} catch (error) {
-			throw error;
+
+			// Start polling for changes
+			schedule(polling);
+		}
+
+		const manualTriggerFunction = async () => {
+			return new Promise<void>((resolve, reject) => {
+				let previousData: any[][] | undefined;
+				const samples: Sample[] = [];
+
+				const poll = async () => {
+					let result;
+					try {
+						result = await readModbusData();
+					} catch (err) {
+						reject(new NodeOperationError(this.getNode(), err.message));
+						return;
+					}
+
+					if (options.emitOn === 'buffer') {
+						samples.push({ timestamp: Date.now(), values: result.values });
+
+						if (isBatchDue(samples.length, samples[0].timestamp)) {
+							const data = [this.helpers.returnJsonArray([createBatch(samples)])];
+							this.emit(options.connectionEvents ? [...data, []] : data);
+							resolve();
+							return;
+						}
+
+						// Buffered samples are only emitted as a batch, never as single changes
+						if (!closed) {
+							poller = setTimeout(poll, polling);
+						}
+						return;
+					}
+
+					const changes = diffBlocks(previousData, result.values);
+					polledData = result.values;
+
+					const reason: EmitReason | undefined =
+						previousData && changes.length
+							? 'change'
+							: options.emitOn === 'poll'
+							? 'poll'
+							: undefined;
+
+					if (reason) {
+						const data = [
+							this.helpers.returnJsonArray(
+								createItems(result.values, changes, result.attempts, reason, previousData),
+							),
+						];
+						this.emit(options.connectionEvents ? [...data, []] : data);
+						resolve();
+						return;
+					}
+					previousData = result.values;
+
+					if (!closed) {
+						poller = setTimeout(poll, polling);
+					}
+				};
+
+				poller = setTimeout(poll, polling);
+			});
+		};
+
+		const closeFunction = async () => {
+			closed = true;
+			clearTimeout(poller);
+			disconnect(false);
+		};
+
+		return {
+			closeFunction,
+			manualTriggerFunction,
+		};
+	}
+}
+
+/**
+ * The ranges to poll: the single range parameters, or the configured named blocks
+ */
+function getBlocks(context: ITriggerFunctions, pollMode: string, options: Options): ReadBlock[] {
+	if (pollMode !== 'blocks') {
+		const resolved = resolveAddress(
+			context,
+			context.getNodeParameter('memoryAddress'),
+			context.getNodeParameter('functionCode') as string,
+			options,
+		);
+
+		return [
+			{
+				name: 'data',
+				functionCode: resolved.functionCode,
+				memoryAddress: resolved.address,
+				quantity: context.getNodeParameter('quantity') as number,
+				unitId: context.getNodeParameter('unitId') as number,
+				filter: getChangeFilter(context, options),
+			},
+		];
+	}
+
+	const configured = context.getNodeParameter('blocks', []) as Array<
+		Partial<Omit<ReadBlock, 'filter' | 'memoryAddress'>> & {
+			memoryAddress?: string | number;
+		} & ChangeFilterSettings
+	>;
+	const blocks: ReadBlock[] = [];
+
+	for (const [index, block] of configured.entries()) {
+		const name = (block.name ?? '').trim();
+
+		if (!name) {
+			throw new NodeOperationError(context.getNode(), `Block ${index + 1} needs a name`);
+		}
+		if (blocks.some((existing) => existing.name === name)) {
+			throw new NodeOperationError(
+				context.getNode(),
+				`Block name "${name}" is used more than once`,
+			);
+		}
+
+		const resolved = resolveAddress(
+			context,
+			block.memoryAddress ?? 1,
+			block.functionCode ?? 'FC3',
+			options,
+			name,
+		);
+
+		blocks.push({
+			name,
+			functionCode: resolved.functionCode,
+			memoryAddress: resolved.address,
+			quantity: block.quantity ?? 1,
+			unitId: block.unitId ?? 1,
+			filter: getChangeFilter(context, { ...options, ...block }, name),
+		});
+	}
+
+	if (!blocks.length) {
+		throw new NodeOperationError(context.getNode(), 'Add at least one block to poll');
+	}
+
+	return blocks;
+}
+
+/**
+ * Resolve a memory address in the address base and notation of the trigger, along with
+ * the function code to read it with: the one of the table a reference points at, or the
+ * selected one for plain addresses
+ */
+function resolveAddress(
+	context: ITriggerFunctions,
+	input: unknown,
+	functionCode: string,
+	options: Options,
+	blockName?: string,
+): Required<ResolvedAddress> {
+	try {
+		const resolved = parseAddress(input, options.addressBase ?? 0, options.addressNotation);
+		return {
+			address: resolved.address,
+			functionCode: readFunctionCode(resolved, functionCode as ReadFunctionCode),
+		};
+	} catch (error) {
+		const scope = blockName ? ` of block "${blockName}"` : '';
+		throw new NodeOperationError(context.getNode(), `${error.message}${scope}`);
+	}
+}
+
+/**
+ * Read a block, in several requests when it exceeds the chunk size. Values missing
+ * from failed chunks would show up as changes, so any failed chunk fails the poll.
+ */
+async function readBlock(
+	connection: ConnectionLease,
+	block: ReadBlock,
+	options: ChunkOptions,
+): Promise<ChunkedReadResult> {
+	const result = await readChunked(
+		connection,
+		block.functionCode as ReadFunctionCode,
+		block.memoryAddress,
+		block.quantity,
+		block.unitId,
+		options,
+	);
+
+	if (result.failedChunks.length) {
+		const failed = result.failedChunks
+			.map((chunk) => `${chunk.address}-${chunk.address + chunk.quantity - 1}: ${chunk.error}`)
+			.join(', ');
+		throw new ApplicationError(
+			`${result.failedChunks.length} of ${result.chunks} chunks failed (${failed})`,
+		);
+	}
+
+	return result;
+}
+
+function processData(
+	block: ReadBlock,
+	data: ChunkedReadResult['data'],
+	format?: RegisterFormat,
+): any[] {
+	if (block.functionCode === 'FC1' || block.functionCode === 'FC2') {
+		// For coils and discrete inputs, return boolean array
+		return data;
+	} else if (format === 'uint16') {
+		return data.map((value) => (value as Buffer).readUInt16BE(0));
+	} else {
+		// For holding and input registers, convert to integers
+		return data.map((value) => (value as Buffer).readInt16BE(0));
+	}
+}
+
+/**
+ * The data fields of an emitted block, with registers in the selected format
+ */
+function formatBlock(block: ReadBlock, values: any[], format?: RegisterFormat): IDataObject {
+	if (block.functionCode === 'FC1' || block.functionCode === 'FC2') {
+		return { data: values };
+	}
+
+	return formatRegisters(values, format);
+}
+
+function getChangeFilter(
+	context: ITriggerFunctions,
+	settings: ChangeFilterSettings,
+	blockName?: string,
+): ChangeFilter {
+	const scope = blockName ? ` of block "${blockName}"` : '';
+	const type = settings.deadbandType ?? 'absolute';
+	const indexDeadbands = new Map<number, Deadband>();
+
+	for (const entry of splitList(settings.indexDeadbands)) {
+		const match = /^(\d+)\s*:\s*(\d+(?:\.\d+)?)\s*(%?)$/.exec(entry);
+		if (!match) {
+			throw new NodeOperationError(
+				context.getNode(),
+				`Invalid index deadband "${entry}"${scope}. Use index:deadband, e.g. 3:0.5 or 3:2%`,
+			);
 		}
+
+		indexDeadbands.set(Number(match[1]), {
+			value: Number(match[2]),
+			type: match[3] ? 'percentage' : 'absolute',
+		});
 	}
+
+	let edgeAddresses: Set<number> | undefined;
+
+	if (splitList(settings.edgeAddresses).length) {
+		edgeAddresses = new Set(
+			parseRanges(
+				context,
+				settings.edgeAddresses,
+				`edge addresses${scope}`,
+				'e.g. 100, 104-107',
+			).map((address) => address - (settings.addressBase ?? 0)),
+		);
+	}
+
+	return {
+		deadband: { value: settings.deadband ?? 0, type },
+		indexDeadbands,
+		ignore: new Set(
+			parseRanges(context, settings.ignoreIndices, `ignored indices${scope}`, 'e.g. 0, 4-7'),
+		),
+		triggerOn: settings.triggerOn ?? 'change',
+		edgeAddresses,
+		debounce: { value: settings.debounce ?? 0, unit: settings.debounceUnit ?? 'polls' },
+	};
+}
+
+/**
+ * Every number in a comma-separated list of numbers and ranges such as "0, 4-7"
+ */
+function parseRanges(
+	context: ITriggerFunctions,
+	value: string | undefined,
+	description: string,
+	example: string,
+): number[] {
+	const numbers: number[] = [];
+
+	for (const entry of splitList(value)) {
+		const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(entry);
+		if (!match) {
+			throw new NodeOperationError(
+				context.getNode(),
+				`Invalid entry "${entry}" in ${description}. Use numbers or ranges, ${example}`,
+			);
+		}
+
+		const from = Number(match[1]);
+		const to = match[2] === undefined ? from : Number(match[2]);
+		for (let number = Math.min(from, to); number <= Math.max(from, to); number++) {
+			numbers.push(number);
+		}
+	}
+
+	return numbers;
+}
+
+function splitList(value?: string): string[] {
+	return (value ?? '')
+		.split(',')
+		.map((entry) => entry.trim())
+		.filter((entry) => entry !== '');
+}
+
+/**
+ * The values of the block that are not ignored and moved beyond their deadband, with
+ * their previous and current value. Coil and discrete input states have no deadband,
+ * change on any difference and are reported as rising or falling edges. Without
+ * previous values, or with `everyPoint`, every point is reported.
+ */
+function diffBlock(
+	block: ReadBlock,
+	previous: any[] | undefined,
+	current: any[],
+	polled: any[] | undefined,
+	everyPoint = false,
+): PointChange[] {
+	const { filter } = block;
+	const bits = isBitBlock(block);
+	const edges = bits && filter.triggerOn !== 'change';
+	// Coil and input states arrive padded to whole bytes
+	const length = bits ? Math.min(current.length, block.quantity) : current.length;
+	const changes: PointChange[] = [];
+
+	for (let index = 0; index < length; index++) {
+		if (filter.ignore.has(index)) continue;
+
+		const value = current[index];
+
+		if (edges && !everyPoint) {
+			const change = edgeChange(block, index, polled?.[index], value);
+			if (change) changes.push(change);
+			continue;
+		}
+
+		const last = previous?.[index] ?? null;
+
+		if (!everyPoint && last !== null && !isBeyondDeadband(filter, index, bits, last, value)) {
+			continue;
+		}
+
+		const change: PointChange = {
+			block: block.name,
+			functionCode: block.functionCode,
+			unitId: block.unitId,
+			index,
+			address: block.memoryAddress + index,
+			reference: toReference(block.functionCode, block.memoryAddress + index),
+			previous: last,
+			current: value,
+		};
+
+		if (bits && last !== null && Boolean(last) !== Boolean(value)) {
+			change.edge = value ? 'rising' : 'falling';
+		}
+
+		changes.push(change);
+	}
+
+	return changes;
+}
+
+/**
+ * The selected edge of a coil or input since the previous poll, if it occurred
+ */
+function edgeChange(
+	block: ReadBlock,
+	index: number,
+	last: any,
+	value: any,
+): PointChange | undefined {
+	const { triggerOn, edgeAddresses } = block.filter;
+	const address = block.memoryAddress + index;
+
+	if (last === undefined || Boolean(last) === Boolean(value)) return undefined;
+	if (edgeAddresses && !edgeAddresses.has(address)) return undefined;
+
+	const edge = value ? 'rising' : 'falling';
+	if (triggerOn !== 'bothEdges' && triggerOn !== `${edge}Edge`) return undefined;
+
+	return {
+		block: block.name,
+		functionCode: block.functionCode,
+		unitId: block.unitId,
+		index,
+		address,
+		reference: toReference(block.functionCode, address),
+		previous: last,
+		current: value,
+		edge,
+	};
+}
+
+/**
+ * Replace coil and input states that have not yet been held for the debounce period by
+ * the last accepted state, so that chattering contacts do not fire
+ */
+function debounceValues(block: ReadBlock, state: DebounceState, values: any[]): any[] {
+	const { debounce } = block.filter;
+
+	if (!isBitBlock(block) || debounce.value <= 0 || !state.stable) {
+		state.stable = values;
+		return values;
+	}
+
+	const now = Date.now();
+	const stable = [...state.stable];
+
+	values.forEach((value, index) => {
+		if (value === stable[index]) {
+			state.pending.delete(index);
+			return;
+		}
+
+		let pending = state.pending.get(index);
+		if (!pending || pending.value !== value) {
+			pending = { value, polls: 0, since: now };
+			state.pending.set(index, pending);
+		}
+		pending.polls++;
+
+		const held = debounce.unit === 'polls' ? pending.polls : now - pending.since;
+		if (held >= debounce.value) {
+			stable[index] = value;
+			state.pending.delete(index);
+		}
+	});
+
+	state.stable = stable;
+	return stable;
+}
+
+function isBitBlock(block: ReadBlock): boolean {
+	return block.functionCode === 'FC1' || block.functionCode === 'FC2';
+}
+
+function isBeyondDeadband(
+	filter: ChangeFilter,
+	index: number,
+	bits: boolean,
+	last: any,
+	value: any,
+): boolean {
+	if (bits || typeof value !== 'number' || typeof last !== 'number') return value !== last;
+
+	const deadband = filter.indexDeadbands.get(index) ?? filter.deadband;
+	const band =
+		deadband.type === 'percentage' ? (Math.abs(last) * deadband.value) / 100 : deadband.value;
+
+	return Math.abs(value - last) > band;
+}
+
+/**
+ * The last emitted values of the blocks, as persisted before the trigger was restarted,
+ * with registers in the values the register format compares. Blocks whose range changed
+ * since then start without previous values.
+ */
+function restoreValues(
+	staticData: IDataObject,
+	blocks: ReadBlock[],
+	format?: RegisterFormat,
+): any[][] | undefined {
+	const persisted = (staticData.lastValues ?? {}) as Record<string, PersistedBlock>;
+	let restored = false;
+
+	const values = blocks.map((block) => {
+		const entry = persisted[block.name];
+		if (
+			!entry ||
+			entry.functionCode !== block.functionCode ||
+			entry.address !== block.memoryAddress ||
+			entry.quantity !== block.quantity ||
+			entry.unitId !== block.unitId ||
+			!Array.isArray(entry.values)
+		) {
+			return undefined;
+		}
+
+		restored = true;
+		if (isBitBlock(block)) return entry.values;
+
+		// Values persisted before registers were kept unsigned may still be signed
+		return entry.values.map((value) =>
+			format === 'uint16' ? value & 0xffff : ((value & 0xffff) << 16) >> 16,
+		);
+	});
+
+	return restored ? (values as any[][]) : undefined;
+}
+
+function persistValues(staticData: IDataObject, blocks: ReadBlock[], values: any[][]) {
+	const lastValues: Record<string, PersistedBlock> = {};
+
+	blocks.forEach((block, index) => {
+		lastValues[block.name] = {
+			functionCode: block.functionCode,
+			address: block.memoryAddress,
+			quantity: block.quantity,
+			unitId: block.unitId,
+			values: isBitBlock(block) ? values[index] : values[index].map((value) => value & 0xffff),
+		};
+	});
+
+	staticData.lastValues = lastValues;
+}
+
+/**
+ * Minimum, maximum, average and last value of every point across the samples of a block
+ */
+function aggregate(series: any[][]): IDataObject[] {
+	// Buffers hold thousands of samples, too many to spread into Math.min/max
+	const length = series.reduce((longest, values) => Math.max(longest, values.length), 0);
+	const aggregates: IDataObject[] = [];
+
+	for (let index = 0; index < length; index++) {
+		let min = Infinity;
+		let max = -Infinity;
+		let sum = 0;
+		let count = 0;
+		let last = 0;
+
+		for (const values of series) {
+			const value = Number(values[index]);
+			if (Number.isNaN(value)) continue;
+
+			min = Math.min(min, value);
+			max = Math.max(max, value);
+			sum += value;
+			count++;
+			last = value;
+		}
+
+		if (!count) {
+			aggregates.push({ min: null, max: null, avg: null, last: null });
+			continue;
+		}
+
+		aggregates.push({ min, max, avg: sum / count, last });
+	}
+
+	return aggregates;
 }
@@ -0,0 +1,335 @@
+import modbus from 'modbus-stream';
+import type { Server, Socket } from 'net';
+import { ApplicationError } from 'n8n-workflow';
+
+export type ServerTable = 'coils' | 'discreteInputs' | 'holdingRegisters' | 'inputRegisters';
+
+export interface ServerOptions {
+	port: number;
+	host: string;
+	unitId: number;
+	/** Answer requests for every unit ID instead of only `unitId` */
+	anyUnitId: boolean;
+	/** Number of coils, discrete inputs, holding and input registers in the image */
+	size: number;
+}
+
+/**
+ * A client wrote to the register image
+ */
+export interface ServerWriteEvent {
+	functionCode: string;
+	table: ServerTable;
+	unitId: number;
+	address: number;
+	quantity: number;
+	previous: Array<boolean | number>;
+	current: Array<boolean | number>;
+	client: string;
+}
+
+type Reply = (err: string | null, ...data: unknown[]) => void;
+
+interface ServerRequest {
+	unitId: number;
+	request: {
+		address: number;
+		quantity: number;
+		value: Buffer | number | boolean;
+		values: Array<Buffer | number | boolean>;
+		andmask: Buffer;
+		ormask: Buffer;
+		read_address: number;
+		read_quantity: number;
+		write_address: number;
+	};
+}
+
+interface ServerConnection {
+	on: (event: string, listener: (req: ServerRequest, reply: Reply) => void) => void;
+	transport: { stream: Socket };
+}
+
+const toRegister = (value: Buffer | number) =>
+	Buffer.isBuffer(value) ? value.readUInt16BE(0) : Number(value) & 0xffff;
+
+const toBuffer = (value: number) => {
+	const buffer = Buffer.alloc(2);
+	buffer.writeUInt16BE(value & 0xffff);
+	return buffer;
+};
+
+/**
+ * Registers are handed out as signed 16-bit values, like the MODBUS node reads them
+ */
+const toSigned = (value: number) => (value << 16) >> 16;
+
+/**
+ * A Modbus TCP server (slave) answering clients from an in-memory image of coils,
+ * discrete inputs, holding and input registers, and reporting every client write
+ */
+export class ModbusServer {
+	private readonly bits: Record<'coils' | 'discreteInputs', boolean[]>;
+
+	private readonly registers: Record<'holdingRegisters' | 'inputRegisters', number[]>;
+
+	private readonly sockets = new Set<Socket>();
+
+	private server?: Server;
+
+	constructor(
+		readonly options: ServerOptions,
+		private readonly onWrite: (event: ServerWriteEvent) => void,
+	) {
+		this.bits = {
+			coils: new Array(options.size).fill(false),
+			discreteInputs: new Array(options.size).fill(false),
+		};
+		this.registers = {
+			holdingRegisters: new Array(options.size).fill(0),
+			inputRegisters: new Array(options.size).fill(0),
+		};
+	}
+
+	async listen(): Promise<void> {
+		const server: Server = modbus.tcp.server({ debug: null }, (connection) =>
+			this.attach(connection as unknown as ServerConnection),
+		);
+
+		server.on('connection', (socket: Socket) => {
+			this.sockets.add(socket);
+			socket.on('close', () => this.sockets.delete(socket));
+		});
+
+		await new Promise<void>((resolve, reject) => {
+			server.once('error', (error) =>
+				reject(
+					new ApplicationError(
+						`Could not listen on ${this.options.host}:${this.options.port}: ${error.message}`,
+					),
+				),
+			);
+			server.listen(this.options.port, this.options.host, () => resolve());
+		});
+
+		// Without a listener, later server errors would be thrown as uncaught exceptions
+		server.on('error', () => {});
+		this.server = server;
+	}
+
+	async close(): Promise<void> {
+		for (const socket of this.sockets) {
+			socket.destroy();
+		}
+
+		await new Promise<void>((resolve) =>
+			this.server ? this.server.close(() => resolve()) : resolve(),
+		);
+	}
+
+	/**
+	 * Values of the image, with registers as signed 16-bit values
+	 */
+	read(table: ServerTable, address: number, quantity: number): Array<boolean | number> {
+		this.checkRange(table, address, quantity);
+
+		if (table === 'coils' || table === 'discreteInputs') {
+			return this.bits[table].slice(address, address + quantity);
+		}
+
+		return this.registers[table].slice(address, address + quantity).map(toSigned);
+	}
+
+	/**
+	 * Update the image, e.g. with results for the client to read back. Does not raise
+	 * write events, which are only reported for client writes.
+	 */
+	write(table: ServerTable, address: number, values: Array<boolean | number>) {
+		this.checkRange(table, address, values.length);
+
+		if (table === 'coils' || table === 'discreteInputs') {
+			values.forEach((value, index) => (this.bits[table][address + index] = Boolean(value)));
+			return;
+		}
+
+		values.forEach((value, index) => {
+			this.registers[table][address + index] = Number(value) & 0xffff;
+		});
+	}
+
+	private checkRange(table: ServerTable, address: number, quantity: number) {
+		if (address < 0 || quantity < 1 || address + quantity > this.options.size) {
+			throw new ApplicationError(
+				`Addresses ${address}-${
+					address + quantity - 1
+				} are outside the ${table} of the server, which has ${this.options.size}`,
+			);
+		}
+	}
+
+	private attach(connection: ServerConnection) {
+		const socket = connection.transport.stream;
+		const client = `${socket.remoteAddress}:${socket.remotePort}`;
+
+		const handle = (
+			event: string,
+			handler: (request: ServerRequest['request'], reply: Reply, unitId: number) => void,
+		) => {
+			connection.on(event, (req, reply) => {
+				if (!this.options.anyUnitId && req.unitId !== this.options.unitId) {
+					reply('GatewayTargetDeviceFailedToRespond');
+					return;
+				}
+
+				try {
+					handler(req.request, reply, req.unitId);
+				} catch (error) {
+					reply('IllegalDataAddress');
+				}
+			});
+		};
+
+		const readBits =
+			(table: 'coils' | 'discreteInputs') => (request: ServerRequest['request'], reply: Reply) =>
+				reply(null, this.read(table, request.address, request.quantity));
+
+		const readRegisters =
+			(table: 'holdingRegisters' | 'inputRegisters') =>
+			(request: ServerRequest['request'], reply: Reply) =>
+				reply(
+					null,
+					this.read(table, request.address, request.quantity).map((value) =>
+						toBuffer(value as number),
+					),
+				);
+
+		// Apply a client write to the image and report it
+		const clientWrite = (
+			functionCode: string,
+			table: 'coils' | 'holdingRegisters',
+			unitId: number,
+			address: number,
+			values: Array<boolean | number>,
+		) => {
+			const previous = this.read(table, address, values.length);
+			this.write(table, address, values);
+
+			this.onWrite({
+				functionCode,
+				table,
+				unitId,
+				address,
+				quantity: values.length,
+				previous,
+				current: this.read(table, address, values.length),
+				client,
+			});
+		};
+
+		handle('read-coils', readBits('coils'));
+		handle('read-discrete-inputs', readBits('discreteInputs'));
+		handle('read-holding-registers', readRegisters('holdingRegisters'));
+		handle('read-input-registers', readRegisters('inputRegisters'));
+
+		handle('write-single-coil', (request, reply, unitId) => {
+			clientWrite('FC5', 'coils', unitId, request.address, [Boolean(request.value)]);
+			reply(null, request.address, request.value);
+		});
+
+		handle('write-single-register', (request, reply, unitId) => {
+			clientWrite('FC6', 'holdingRegisters', unitId, request.address, [
+				toRegister(request.value as Buffer),
+			]);
+			reply(null, request.address, request.value);
+		});
+
+		handle('write-multiple-coils', (request, reply, unitId) => {
+			const values = request.values.slice(0, request.quantity).map(Boolean);
+			clientWrite('FC15', 'coils', unitId, request.address, values);
+			reply(null, request.address, request.quantity);
+		});
+
+		handle('write-multiple-registers', (request, reply, unitId) => {
+			const values = request.values.map((value) => toRegister(value as Buffer));
+			clientWrite('FC16', 'holdingRegisters', unitId, request.address, values);
+			reply(null, request.address, values.length);
+		});
+
+		handle('mask-write-register', (request, reply, unitId) => {
+			const andMask = toRegister(request.andmask);
+			const orMask = toRegister(request.ormask);
+			const [current] = this.read('holdingRegisters', request.address, 1) as number[];
+			const value = (current & andMask) | (orMask & ~andMask & 0xffff);
+
+			clientWrite('FC22', 'holdingRegisters', unitId, request.address, [value]);
+			reply(null, request.address, request.andmask, request.ormask);
+		});
+
+		handle('read-write-multiple-registers', (request, reply, unitId) => {
+			const values = request.values.map((value) => toRegister(value as Buffer));
+			clientWrite('FC23', 'holdingRegisters', unitId, request.write_address, values);
+
+			const read = this.read('holdingRegisters', request.read_address, request.read_quantity);
+			reply(
+				null,
+				read.map((value) => toBuffer(value as number)),
+			);
+		});
+	}
+}
+
+const servers = new Map<number, ModbusServer>();
+
+/**
+ * Start a server on the given port. Only one server can listen on a port at a time.
+ */
+export const startServer = async (
+	options: ServerOptions,
+	onWrite: (event: ServerWriteEvent) => void,
+): Promise<ModbusServer> => {
+	if (servers.has(options.port)) {
+		throw new ApplicationError(`A MODBUS Server is already running on port ${options.port}`);
+	}
+
+	const server = new ModbusServer(options, onWrite);
+	servers.set(options.port, server);
+
+	try {
+		await server.listen();
+	} catch (error) {
+		servers.delete(options.port);
+		throw error;
+	}
+
+	return server;
+};
+
+export const stopServer = async (server: ModbusServer) => {
+	if (servers.get(server.options.port) === server) {
+		servers.delete(server.options.port);
+	}
+
+	await server.close();
+};
+
+/**
+ * The running server on the given port, for updating or reading its image
+ */
+export const getServer = (port: number): ModbusServer => {
+	const server = servers.get(port);
+
+	if (!server) {
+		// Queue mode workers execute the node away from the main process running the trigger
+		if (process.env.EXECUTIONS_MODE === 'queue') {
+			throw new ApplicationError(
+				`No MODBUS Server is running on port ${port} in this process. n8n runs in queue mode, so this execution may run on a worker while the MODBUS Server Trigger runs in the main process. The Server Image operations need n8n to run in a single process.`,
+			);
+		}
+
+		throw new ApplicationError(
+			`No MODBUS Server is running on port ${port}. Activate the workflow with the MODBUS Server Trigger first.`,
+		);
+	}
+
+	return server;
+};
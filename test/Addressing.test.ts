@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+	checkTable,
+	defaultAddressBase,
+	parseAddress,
+	readFunctionCode,
+} from '../nodes/Modbus/Addressing';
+
+describe('Addressing', () => {
+	it('reads plain 5-digit numbers as addresses', () => {
+		assert.deepEqual(parseAddress('10000'), { address: 10000 });
+		assert.deepEqual(parseAddress('30010', 1), { address: 30009 });
+		assert.deepEqual(parseAddress('0x64'), { address: 100 });
+	});
+
+	it('resolves references in their own notation', () => {
+		assert.deepEqual(parseAddress('30010', 0, 'modicon'), { address: 9, functionCode: 'FC4' });
+		assert.deepEqual(parseAddress('400001', 1, 'modicon'), { address: 0, functionCode: 'FC3' });
+		assert.deepEqual(parseAddress('%mw100', 1, 'iec'), { address: 100, functionCode: 'FC3' });
+		assert.throws(() => parseAddress('100', 0, 'modicon'), /Invalid Modicon reference "100"/);
+		assert.throws(() => parseAddress('40001', 0, 'iec'), /Invalid IEC reference "40001"/);
+		assert.throws(() => parseAddress('%MW100'), /Invalid address "%MW100"/);
+	});
+
+	it('rejects references to another table than the function code reads', () => {
+		const resolved = parseAddress('10001', 0, 'modicon');
+
+		assert.throws(
+			() => checkTable(resolved, 'FC3', 'FC3'),
+			/refers to discrete inputs, but FC3 accesses holding registers/,
+		);
+		assert.doesNotThrow(() => checkTable(resolved, 'FC2', 'FC2'));
+		assert.doesNotThrow(() => checkTable(parseAddress('10001'), 'FC3', 'FC3'));
+	});
+
+	it('reads references with the function code of their table', () => {
+		assert.equal(readFunctionCode(parseAddress('30010', 0, 'modicon'), 'FC3'), 'FC4');
+		assert.equal(readFunctionCode(parseAddress('%I5', 0, 'iec'), 'FC3'), 'FC2');
+		assert.equal(readFunctionCode(parseAddress('30010'), 'FC3'), 'FC3');
+	});
+
+	it('counts from 1 unless the node predates version 2', () => {
+		assert.equal(defaultAddressBase(undefined), 0);
+		assert.equal(defaultAddressBase(1), 0);
+		assert.equal(defaultAddressBase(2), 1);
+	});
+});
@@ -0,0 +1,303 @@
+import assert from 'node:assert/strict';
+import { createServer, type AddressInfo, type Server } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+
+import {
+	acquireConnection,
+	connectionKey,
+	readChunked,
+	readRange,
+	type ConnectionLease,
+} from '../nodes/Modbus/ConnectionManager';
+import { crc16 } from '../nodes/Modbus/Framing';
+import { startServer, stopServer, type ModbusServer } from '../nodes/Modbus/ServerManager';
+
+const SERVER_PORT = 15019;
+const SERVER_SIZE = 5000;
+
+const withCrc = (frame: Buffer) => {
+	const crc = Buffer.alloc(2);
+	crc.writeUInt16LE(crc16(frame));
+
+	return Buffer.concat([frame, crc]);
+};
+
+/**
+ * An RTU-over-TCP gateway answering FC3 reads of unit 1 with register `address + index`.
+ * The first `truncate` responses lose their last byte on the way, and reads starting at
+ * a `silent` address are never answered.
+ */
+const startGateway = async (truncate = 0, silent: number[] = []) => {
+	const server = createServer((socket) => {
+		let buffer = Buffer.alloc(0);
+
+		socket.on('data', (data) => {
+			buffer = Buffer.concat([buffer, data]);
+
+			while (buffer.length >= 8) {
+				const request = buffer.subarray(0, 8);
+				buffer = buffer.subarray(8);
+
+				if (request[0] !== 1 || request[1] !== 0x03) continue;
+
+				const address = request.readUInt16BE(2);
+				if (silent.includes(address)) continue;
+
+				const quantity = request.readUInt16BE(4);
+				const response = Buffer.alloc(3 + quantity * 2);
+				response[0] = 1;
+				response[1] = 0x03;
+				response[2] = quantity * 2;
+				for (let index = 0; index < quantity; index++) {
+					response.writeUInt16BE(address + index, 3 + index * 2);
+				}
+
+				const frame = withCrc(response);
+				socket.write(truncate-- > 0 ? frame.subarray(0, -1) : frame);
+			}
+		});
+	});
+
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+	return server;
+};
+
+const registers = (data: any) =>
+	(data.response.data as Buffer[]).map((value) => value.readUInt16BE(0));
+
+/**
+ * Whether each request and response went out or came in, in the order they did
+ */
+const recordTraffic = (lease: ConnectionLease) => {
+	const traffic: Array<'request' | 'response'> = [];
+	const transport = (lease.connection.client as any).transport;
+
+	transport.on('outgoing-data', () => traffic.push('request'));
+	transport.on('incoming-data', () => traffic.push('response'));
+
+	return traffic;
+};
+
+describe('ConnectionManager retries', () => {
+	let gateway: Server;
+
+	before(async () => {
+		gateway = await startGateway(1);
+	});
+
+	after(async () => {
+		await new Promise((resolve) => gateway.close(resolve));
+	});
+
+	it('retries a truncated RTU response on a clean frame buffer', async () => {
+		const connection = await acquireConnection({
+			host: '127.0.0.1',
+			port: (gateway.address() as AddressInfo).port,
+			framing: 'rtu',
+			timeout: 1000,
+			responseTimeout: 200,
+			unitId: 1,
+			retries: 1,
+			retryBackoff: 'fixed',
+			retryDelay: 10,
+			retryOn: ['timeout', 'checksum'],
+		});
+
+		try {
+			const result = await readRange(connection, 'FC3', 10, 3, 1);
+
+			assert.equal(result.attempts, 2);
+			assert.deepEqual(registers(result.data), [10, 11, 12]);
+		} finally {
+			connection.release({ keepAlive: false });
+		}
+	});
+});
+
+describe('ConnectionManager keys', () => {
+	it('shares a serial port whatever the timeouts', () => {
+		const line = {
+			protocol: 'rtu',
+			serialPath: '/dev/ttyUSB0',
+			baudRate: 9600,
+			parity: 'none',
+			dataBits: 8,
+			stopBits: 1,
+			unitId: 1,
+		} as const;
+
+		assert.equal(
+			connectionKey({ ...line, timeout: 1000, idleTimeout: 0 }),
+			connectionKey({ ...line, timeout: 5000, responseTimeout: 200, baudRate: 19200 }),
+		);
+	});
+
+	it('shares a TCP device whatever the timeouts', () => {
+		const device = { host: '127.0.0.1', port: 502, unitId: 1 };
+
+		assert.equal(
+			connectionKey({ ...device, timeout: 1000, idleTimeout: 0 }),
+			connectionKey({ ...device, timeout: 5000, responseTimeout: 200, unitId: 2 }),
+		);
+	});
+
+	it('keeps other framings of the same host and port apart', () => {
+		const device = { host: '127.0.0.1', port: 502, unitId: 1, timeout: 1000 };
+
+		assert.notEqual(connectionKey(device), connectionKey({ ...device, framing: 'rtu' }));
+	});
+});
+
+describe('ConnectionManager chunked reads', () => {
+	let server: ModbusServer;
+	let connection: ConnectionLease;
+
+	before(async () => {
+		server = await startServer(
+			{ port: SERVER_PORT, host: '127.0.0.1', unitId: 1, anyUnitId: false, size: SERVER_SIZE },
+			() => {},
+		);
+		server.write(
+			'holdingRegisters',
+			0,
+			Array.from({ length: SERVER_SIZE }, (_, index) => index),
+		);
+		server.write(
+			'coils',
+			0,
+			Array.from({ length: SERVER_SIZE }, (_, index) => index % 3 === 0),
+		);
+
+		connection = await acquireConnection({
+			host: '127.0.0.1',
+			port: SERVER_PORT,
+			timeout: 1000,
+			unitId: 1,
+			idleTimeout: 0,
+		});
+	});
+
+	after(async () => {
+		connection.release({ keepAlive: false });
+		await stopServer(server);
+	});
+
+	const values = (data: Array<number | boolean | Buffer | null>) =>
+		data.map((value) => (Buffer.isBuffer(value) ? value.readUInt16BE(0) : value));
+
+	it('splits register reads at 125 registers', async () => {
+		const result = await readChunked(connection, 'FC3', 10, 300, 1);
+
+		assert.equal(result.chunks, 3);
+		assert.equal(result.attempts, 3);
+		assert.deepEqual(result.failedChunks, []);
+		assert.deepEqual(
+			values(result.data),
+			Array.from({ length: 300 }, (_, index) => 10 + index),
+		);
+	});
+
+	it('splits coil reads at 2000 coils', async () => {
+		const result = await readChunked(connection, 'FC1', 0, 4500, 1);
+
+		assert.equal(result.chunks, 3);
+		assert.equal(result.data.length, 4500);
+		assert.deepEqual(
+			result.data.map(Boolean),
+			Array.from({ length: 4500 }, (_, index) => index % 3 === 0),
+		);
+	});
+
+	it('caps the chunk size at the protocol limit', async () => {
+		assert.equal((await readChunked(connection, 'FC3', 0, 300, 1, { chunkSize: 100 })).chunks, 3);
+		assert.equal((await readChunked(connection, 'FC3', 0, 300, 1, { chunkSize: 500 })).chunks, 3);
+		assert.equal((await readChunked(connection, 'FC3', 0, 125, 1)).chunks, 1);
+	});
+
+	it('reports failed chunks and fills their values with null', async () => {
+		const result = await readChunked(connection, 'FC3', SERVER_SIZE - 200, 250, 1);
+
+		assert.equal(result.chunks, 2);
+		assert.deepEqual(result.failedChunks, [
+			{ address: SERVER_SIZE - 75, quantity: 125, error: 'IllegalDataAddress' },
+		]);
+		assert.deepEqual(
+			values(result.data.slice(0, 125)),
+			Array.from({ length: 125 }, (_, index) => SERVER_SIZE - 200 + index),
+		);
+		assert.deepEqual(result.data.slice(125), new Array(125).fill(null));
+	});
+
+	it('fails like a single request when every chunk fails', async () => {
+		await assert.rejects(readChunked(connection, 'FC3', SERVER_SIZE - 50, 200, 1), {
+			message: 'IllegalDataAddress',
+		});
+	});
+
+	it('rejects quantities below one', async () => {
+		await assert.rejects(readChunked(connection, 'FC3', 0, 0, 1), /at least 1, got 0/);
+	});
+
+	it('pipelines chunks over Modbus TCP', async () => {
+		const traffic = recordTraffic(connection);
+		const result = await readChunked(connection, 'FC3', 0, 375, 1, { pipeline: true });
+
+		assert.ok(connection.pipelining);
+		assert.deepEqual(values(result.data).slice(-1), [374]);
+		assert.deepEqual(traffic.slice(0, 3), ['request', 'request', 'request']);
+	});
+
+	it('reads on past a chunk the device does not answer', async () => {
+		const gateway = await startGateway(0, [125]);
+		const lease = await acquireConnection({
+			host: '127.0.0.1',
+			port: (gateway.address() as AddressInfo).port,
+			framing: 'rtu',
+			timeout: 1000,
+			responseTimeout: 50,
+			unitId: 1,
+			idleTimeout: 0,
+		});
+
+		try {
+			const result = await readChunked(lease, 'FC3', 0, 375, 1);
+
+			assert.deepEqual(result.failedChunks, [
+				{ address: 125, quantity: 125, error: 'GatewayTargetDeviceFailedToRespond' },
+			]);
+			assert.deepEqual(values(result.data).slice(-1), [374]);
+			assert.equal(lease.closed, false);
+		} finally {
+			lease.release({ keepAlive: false });
+			await new Promise((resolve) => gateway.close(resolve));
+		}
+	});
+
+	it('sends chunks one after another over RTU framing', async () => {
+		const gateway = await startGateway();
+		const lease = await acquireConnection({
+			host: '127.0.0.1',
+			port: (gateway.address() as AddressInfo).port,
+			framing: 'rtu',
+			timeout: 1000,
+			unitId: 1,
+			idleTimeout: 0,
+		});
+
+		try {
+			const traffic = recordTraffic(lease);
+			const result = await readChunked(lease, 'FC3', 0, 375, 1, { pipeline: true });
+
+			assert.equal(lease.pipelining, false);
+			assert.deepEqual(values(result.data).slice(-1), [374]);
+			assert.deepEqual(
+				traffic.filter((entry, index) => entry !== traffic[index - 1]),
+				['request', 'response', 'request', 'response', 'request', 'response'],
+			);
+		} finally {
+			lease.release({ keepAlive: false });
+			await new Promise((resolve) => gateway.close(resolve));
+		}
+	});
+});
@@ -0,0 +1,250 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+	DataConversionUtils,
+	type ByteOrder,
+	type ConversionRule,
+	type EncodingRule,
+} from '../nodes/Modbus/DataConversionUtils';
+
+const BYTE_ORDERS: ByteOrder[] = [
+	'big_endian',
+	'big_endian_byte_swap',
+	'little_endian',
+	'little_endian_byte_swap',
+];
+
+/**
+ * Registers of 0x1234 (16-bit), 0x12345678 (32-bit) and 0x0102030405060708 (64-bit) as
+ * they arrive from a device, keyed by byte order and word swap
+ */
+const VECTORS: Array<{
+	byteOrder: ByteOrder;
+	wordSwap: boolean;
+	int16: number[];
+	int32: number[];
+	int64: number[];
+}> = [
+	{
+		byteOrder: 'big_endian',
+		wordSwap: false,
+		int16: [0x1234],
+		int32: [0x1234, 0x5678],
+		int64: [0x0102, 0x0304, 0x0506, 0x0708],
+	},
+	{
+		byteOrder: 'big_endian',
+		wordSwap: true,
+		int16: [0x1234],
+		int32: [0x5678, 0x1234],
+		int64: [0x0708, 0x0506, 0x0304, 0x0102],
+	},
+	{
+		byteOrder: 'big_endian_byte_swap',
+		wordSwap: false,
+		int16: [0x3412],
+		int32: [0x3412, 0x7856],
+		int64: [0x0201, 0x0403, 0x0605, 0x0807],
+	},
+	{
+		byteOrder: 'big_endian_byte_swap',
+		wordSwap: true,
+		int16: [0x3412],
+		int32: [0x7856, 0x3412],
+		int64: [0x0807, 0x0605, 0x0403, 0x0201],
+	},
+	{
+		byteOrder: 'little_endian',
+		wordSwap: false,
+		int16: [0x1234],
+		int32: [0x5678, 0x1234],
+		int64: [0x0708, 0x0506, 0x0304, 0x0102],
+	},
+	{
+		byteOrder: 'little_endian',
+		wordSwap: true,
+		int16: [0x1234],
+		int32: [0x1234, 0x5678],
+		int64: [0x0102, 0x0304, 0x0506, 0x0708],
+	},
+	{
+		byteOrder: 'little_endian_byte_swap',
+		wordSwap: false,
+		int16: [0x3412],
+		int32: [0x7856, 0x3412],
+		int64: [0x0807, 0x0605, 0x0403, 0x0201],
+	},
+	{
+		byteOrder: 'little_endian_byte_swap',
+		wordSwap: true,
+		int16: [0x3412],
+		int32: [0x3412, 0x7856],
+		int64: [0x0201, 0x0403, 0x0605, 0x0807],
+	},
+];
+
+const decode = (registers: number[], rule: Omit<ConversionRule, 'name' | 'startRegister'>) => {
+	const result = DataConversionUtils.convertData(registers, {
+		name: 'value',
+		startRegister: 0,
+		...rule,
+	});
+	assert.equal(result.error, undefined);
+
+	return result.value;
+};
+
+describe('DataConversionUtils byte orders', () => {
+	for (const { byteOrder, wordSwap, int16, int32, int64 } of VECTORS) {
+		const order = { byteOrder, wordSwap };
+		const label = `${byteOrder}${wordSwap ? ' with word swap' : ''}`;
+
+		it(`decodes the fixed vectors for ${label}`, () => {
+			assert.equal(decode(int16, { dataType: 'uint16', ...order }), 0x1234);
+			assert.equal(decode(int32, { dataType: 'uint32', ...order }), 0x12345678);
+			assert.equal(
+				decode(int64, { dataType: 'uint64', int64Output: 'string', ...order }),
+				'72623859790382856',
+			);
+		});
+
+		it(`encodes the fixed vectors for ${label}`, () => {
+			assert.deepEqual(
+				DataConversionUtils.encodeData(0x1234, { dataType: 'uint16', ...order }),
+				int16,
+			);
+			assert.deepEqual(
+				DataConversionUtils.encodeData(0x12345678, { dataType: 'uint32', ...order }),
+				int32,
+			);
+			assert.deepEqual(
+				DataConversionUtils.encodeData('72623859790382856', { dataType: 'uint64', ...order }),
+				int64,
+			);
+		});
+	}
+
+	it('decodes IEEE 754 floats', () => {
+		assert.equal(
+			decode([0x4048, 0xf5c3], { dataType: 'float32', byteOrder: 'big_endian' }),
+			Math.fround(3.14),
+		);
+		assert.equal(
+			decode([0xc3f5, 0x4840], { dataType: 'float32', byteOrder: 'little_endian_byte_swap' }),
+			Math.fround(3.14),
+		);
+		assert.equal(decode([0x3ff0, 0, 0, 0], { dataType: 'float64', byteOrder: 'big_endian' }), 1);
+		assert.equal(decode([0, 0, 0, 0x3ff0], { dataType: 'float64', byteOrder: 'little_endian' }), 1);
+	});
+});
+
+describe('DataConversionUtils round trips', () => {
+	const samples: Array<{ dataType: EncodingRule['dataType']; values: Array<number | string> }> = [
+		{ dataType: 'int16', values: [-32768, -1, 0, 1234, 32767] },
+		{ dataType: 'uint16', values: [0, 1234, 65535] },
+		{ dataType: 'int32', values: [-2147483648, -1, 0, 305419896, 2147483647] },
+		{ dataType: 'uint32', values: [0, 305419896, 4294967295] },
+		{ dataType: 'float32', values: [-1.5, 0, Math.fround(3.14), Math.fround(1e20)] },
+		{ dataType: 'float64', values: [-1.5, 0, Math.PI, 1e300] },
+		{
+			dataType: 'int64',
+			values: ['-9223372036854775808', '-1', '0', '72623859790382856', '9223372036854775807'],
+		},
+		{ dataType: 'uint64', values: ['0', '72623859790382856', '18446744073709551615'] },
+		{ dataType: 'bcd', values: [0, 1234, 9999] },
+	];
+
+	for (const byteOrder of BYTE_ORDERS) {
+		for (const wordSwap of [false, true]) {
+			it(`restores every data type for ${byteOrder}${wordSwap ? ' with word swap' : ''}`, () => {
+				for (const { dataType, values } of samples) {
+					for (const value of values) {
+						const registers = DataConversionUtils.encodeData(value, {
+							dataType,
+							byteOrder,
+							wordSwap,
+						});
+						const decoded = decode(registers, {
+							dataType: dataType as ConversionRule['dataType'],
+							byteOrder,
+							wordSwap,
+							int64Output: 'string',
+						});
+
+						assert.equal(decoded, value, `${dataType} ${value}`);
+					}
+				}
+			});
+		}
+	}
+
+	it('restores scaled values', () => {
+		const rule = { byteOrder: 'big_endian', scaleFactor: 0.5, offset: -40 } as const;
+		const registers = DataConversionUtils.encodeData(21.5, { dataType: 'int16', ...rule });
+
+		assert.deepEqual(registers, [123]);
+		assert.equal(decode(registers, { dataType: 'scaled', ...rule }), 21.5);
+	});
+});
+
+describe('DataConversionUtils strings', () => {
+	it('restores text padded to the string length', () => {
+		const registers = DataConversionUtils.encodeData('FS12', {
+			dataType: 'string',
+			byteOrder: 'big_endian',
+			stringLength: 4,
+		});
+
+		assert.deepEqual(registers, [0x4653, 0x3132, 0, 0]);
+		assert.equal(
+			decode(registers, { dataType: 'string', byteOrder: 'big_endian', stringLength: 4 }),
+			'FS12',
+		);
+	});
+
+	it('decodes swapped bytes and keeps padding on request', () => {
+		const registers = [0x5346, 0x3231, 0x2020];
+
+		assert.equal(
+			decode(registers, {
+				dataType: 'string',
+				byteOrder: 'big_endian',
+				stringLength: 3,
+				stringByteSwap: true,
+			}),
+			'FS12',
+		);
+		assert.equal(
+			decode(registers, {
+				dataType: 'string',
+				byteOrder: 'big_endian',
+				stringLength: 3,
+				stringByteSwap: true,
+				stringTrim: 'none',
+			}),
+			'FS12  ',
+		);
+	});
+
+	it('decodes the selected encoding', () => {
+		assert.equal(
+			decode([0xc3a9, 0x0000], {
+				dataType: 'string',
+				byteOrder: 'big_endian',
+				stringLength: 2,
+				stringEncoding: 'utf8',
+			}),
+			'é',
+		);
+		assert.equal(
+			decode([0xe900], {
+				dataType: 'string',
+				byteOrder: 'big_endian',
+				stringLength: 1,
+				stringEncoding: 'latin1',
+			}),
+			'é',
+		);
+	});
+});
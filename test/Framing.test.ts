@@ -0,0 +1,271 @@
+import assert from 'node:assert/strict';
+import { createServer, type AddressInfo, type Server } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+
+import { crc16, lrc, ModbusChecksumError, rtuResponseLength } from '../nodes/Modbus/Framing';
+import { createClient, modbusRequest } from '../nodes/Modbus/GenericFunctions';
+
+const withCrc = (frame: Buffer) => {
+	const crc = Buffer.alloc(2);
+	crc.writeUInt16LE(crc16(frame));
+
+	return Buffer.concat([frame, crc]);
+};
+
+const toAscii = (frame: Buffer) =>
+	Buffer.from(
+		':' +
+			Buffer.concat([frame, Buffer.from([lrc(frame)])])
+				.toString('hex')
+				.toUpperCase() +
+			'\r\n',
+	);
+
+/**
+ * The FC3 response of unit 1 with register `address + index`, to an FC3 request PDU
+ */
+const readResponse = (request: Buffer) => {
+	const address = request.readUInt16BE(2);
+	const quantity = request.readUInt16BE(4);
+	const response = Buffer.alloc(3 + quantity * 2);
+	response[0] = 1;
+	response[1] = 0x03;
+	response[2] = quantity * 2;
+	for (let index = 0; index < quantity; index++) {
+		response.writeUInt16BE(address + index, 3 + index * 2);
+	}
+
+	return response;
+};
+
+/**
+ * A serial gateway answering FC3 reads of unit 1 in RTU or ASCII framing. `damage` may
+ * alter the framed response to a request, given the number of requests before it.
+ */
+const startGateway = async (
+	framing: 'rtu' | 'ascii',
+	damage: (frame: Buffer, count: number) => Buffer = (frame) => frame,
+) => {
+	let count = 0;
+
+	const server = createServer((socket) => {
+		let buffer = Buffer.alloc(0);
+
+		const answer = (request: Buffer) => {
+			if (request[0] !== 1 || request[1] !== 0x03) return;
+
+			const response = readResponse(request);
+			socket.write(damage(framing === 'rtu' ? withCrc(response) : toAscii(response), count++));
+		};
+
+		socket.on('data', (data) => {
+			buffer = Buffer.concat([buffer, data]);
+
+			if (framing === 'rtu') {
+				while (buffer.length >= 8) {
+					answer(buffer.subarray(0, 8));
+					buffer = buffer.subarray(8);
+				}
+				return;
+			}
+
+			for (let end = buffer.indexOf('\r\n'); end !== -1; end = buffer.indexOf('\r\n')) {
+				answer(Buffer.from(buffer.subarray(1, end).toString(), 'hex'));
+				buffer = buffer.subarray(end + 2);
+			}
+		});
+	});
+
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+	return server;
+};
+
+const registers = (data: any) =>
+	(data.response.data as Buffer[]).map((value) => value.readUInt16BE(0));
+
+/**
+ * Read registers 10-12 through a gateway, once for every entry of `expectations`: the
+ * registers read, or the error the read fails with
+ */
+const readThrough = async (
+	gateway: Server,
+	framing: 'rtu' | 'ascii',
+	expectations: Array<number[] | RegExp>,
+) => {
+	const client = await createClient({
+		host: '127.0.0.1',
+		port: (gateway.address() as AddressInfo).port,
+		framing,
+		timeout: 1000,
+		responseTimeout: 200,
+		unitId: 1,
+	});
+	const read = async () =>
+		modbusRequest((callback) =>
+			client.readHoldingRegisters({ address: 10, quantity: 3, extra: { unitId: 1 } }, callback),
+		);
+
+	try {
+		for (const expected of expectations) {
+			if (expected instanceof RegExp) {
+				await assert.rejects(read(), { message: expected });
+			} else {
+				assert.deepEqual(registers(await read()), expected);
+			}
+		}
+	} finally {
+		await new Promise((resolve) => client.close(resolve));
+	}
+};
+
+describe('Framing checksums', () => {
+	it('calculates the CRC-16 of RTU frames', () => {
+		assert.equal(crc16(Buffer.from('01030000000A', 'hex')), 0xcdc5);
+		assert.deepEqual(
+			withCrc(Buffer.from('010300000001', 'hex')),
+			Buffer.from('010300000001840A', 'hex'),
+		);
+		assert.equal(crc16(Buffer.alloc(0)), 0xffff);
+	});
+
+	it('calculates the LRC of ASCII frames', () => {
+		assert.equal(lrc(Buffer.from('010300000001', 'hex')), 0xfb);
+		assert.equal(lrc(Buffer.from('F70302640008', 'hex')), 0x98);
+		assert.equal(lrc(Buffer.alloc(0)), 0);
+	});
+});
+
+describe('rtuResponseLength', () => {
+	const length = (hex: string) => rtuResponseLength(Buffer.from(hex, 'hex'));
+
+	it('waits for the header', () => {
+		assert.equal(length(''), undefined);
+		assert.equal(length('01'), undefined);
+		assert.equal(length('0103'), undefined);
+		assert.equal(length('0117'), undefined);
+		assert.equal(length('0118'), undefined);
+	});
+
+	it('sizes exception responses', () => {
+		assert.equal(length('0183'), 5);
+		assert.equal(length('0190'), 5);
+	});
+
+	it('sizes byte count prefixed read responses', () => {
+		assert.equal(length('010101'), 6);
+		assert.equal(length('010202'), 7);
+		assert.equal(length('010306'), 11);
+		assert.equal(length('0104FA'), 255);
+		assert.equal(length('011704'), 9);
+	});
+
+	it('sizes fixed length write responses', () => {
+		for (const functionCode of ['05', '06', '0F', '10']) {
+			assert.equal(length('01' + functionCode), 8, `FC 0x${functionCode}`);
+		}
+		assert.equal(length('0116'), 10);
+	});
+
+	it('leaves unknown function codes to the CRC', () => {
+		assert.equal(length('012B0E'), undefined);
+	});
+});
+
+describe('RTU over TCP framing', () => {
+	let truncating: Server;
+	let corrupting: Server;
+
+	before(async () => {
+		truncating = await startGateway('rtu', (frame, count) =>
+			count === 0 ? frame.subarray(0, -1) : frame,
+		);
+		corrupting = await startGateway('rtu', (frame, count) => {
+			if (count === 0) frame[frame.length - 1] ^= 0xff;
+			return frame;
+		});
+	});
+
+	after(async () => {
+		await new Promise((resolve) => truncating.close(resolve));
+		await new Promise((resolve) => corrupting.close(resolve));
+	});
+
+	it('drops the rest of a timed out response before the next request', async () => {
+		await readThrough(truncating, 'rtu', [/^GatewayTargetDeviceFailedToRespond$/, [10, 11, 12]]);
+	});
+
+	it('fails a response with a wrong CRC and reads on', async () => {
+		const expected = crc16(
+			withCrc(readResponse(Buffer.from('0103000A0003', 'hex'))).subarray(0, -2),
+		);
+		const received = expected ^ 0xff00;
+		const message = `Modbus RTU CRC check failed: expected 0x${expected
+			.toString(16)
+			.toUpperCase()}, received 0x${received.toString(16).toUpperCase()}`;
+
+		await readThrough(corrupting, 'rtu', [new RegExp(`^${message}$`), [10, 11, 12]]);
+	});
+
+	it('reports checksum errors as ModbusChecksumError', async () => {
+		const gateway = await startGateway('rtu', (frame) => {
+			frame[3] ^= 0xff;
+			return frame;
+		});
+
+		try {
+			const client = await createClient({
+				host: '127.0.0.1',
+				port: (gateway.address() as AddressInfo).port,
+				framing: 'rtu',
+				timeout: 1000,
+				unitId: 1,
+			});
+
+			try {
+				await assert.rejects(
+					modbusRequest((callback) =>
+						client.readHoldingRegisters(
+							{ address: 0, quantity: 1, extra: { unitId: 1 } },
+							callback,
+						),
+					),
+					ModbusChecksumError,
+				);
+			} finally {
+				await new Promise((resolve) => client.close(resolve));
+			}
+		} finally {
+			await new Promise((resolve) => gateway.close(resolve));
+		}
+	});
+});
+
+describe('ASCII over TCP framing', () => {
+	let gateway: Server;
+
+	before(async () => {
+		gateway = await startGateway('ascii', (frame, count) => {
+			if (count === 0) {
+				// Replace the LRC by one that does not match
+				frame.write('00', frame.length - 4);
+			}
+			if (count === 1) {
+				return Buffer.from(':01XY\r\n');
+			}
+			return frame;
+		});
+	});
+
+	after(async () => {
+		await new Promise((resolve) => gateway.close(resolve));
+	});
+
+	it('fails responses with a wrong LRC or malformed frames and reads on', async () => {
+		await readThrough(gateway, 'ascii', [
+			/^Modbus ASCII LRC check failed: expected 0x[0-9A-F]{2}, received 0x00$/,
+			/^Malformed Modbus ASCII frame: ":01XY"$/,
+			[10, 11, 12],
+		]);
+	});
+});
@@ -0,0 +1,313 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+
+import { ModbusAlarm } from '../nodes/Modbus/ModbusAlarm.node';
+
+/**
+ * Alarm executions sharing one workflow static data, at the time of a mocked clock
+ */
+const createAlarm = () => {
+	const staticData: IDataObject = {};
+
+	const run = async (parameters: IDataObject, items: IDataObject[] = [{}]) => {
+		const context = {
+			getInputData: () => items.map((json) => ({ json })),
+			getNodeParameter: (name: string, _itemIndex: number, fallback?: unknown) =>
+				parameters[name] ?? fallback,
+			getWorkflowStaticData: () => staticData,
+			getNode: () => ({ name: 'MODBUS Alarm' }),
+			continueOnFail: () => false,
+		} as unknown as IExecuteFunctions;
+
+		const [output] = await new ModbusAlarm().execute.call(context);
+
+		return output.map((item) => item.json);
+	};
+
+	/** Evaluate the alarms against one `value` field */
+	const evaluate = async (alarms: IDataObject[], value: number) =>
+		run({ operation: 'evaluate', alarms }, [{ value }]);
+
+	const acknowledge = async (alarmName: string) => run({ operation: 'acknowledge', alarmName });
+
+	return { staticData, run, evaluate, acknowledge };
+};
+
+const summary = (events: IDataObject[]) =>
+	events.map(({ event, level, value }) => ({ event, level, value }));
+
+describe('ModbusAlarm', () => {
+	let now: number;
+
+	beforeEach(() => {
+		now = Date.parse('2026-01-01T00:00:00Z');
+		mock.method(Date, 'now', () => now);
+	});
+
+	afterEach(() => {
+		mock.restoreAll();
+	});
+
+	describe('limits and hysteresis', () => {
+		const alarms = [
+			{ name: 'temperature', valueField: 'value', highLimit: 80, highHighLimit: 90, hysteresis: 5 },
+		];
+
+		it('raises the most severe level the value reaches', async () => {
+			const { evaluate } = createAlarm();
+
+			assert.deepEqual(await evaluate(alarms, 79), []);
+			assert.deepEqual(summary(await evaluate(alarms, 80)), [
+				{ event: 'raised', level: 'high', value: 80 },
+			]);
+			assert.deepEqual(summary(await evaluate(alarms, 95)), [
+				{ event: 'escalated', level: 'highHigh', value: 95 },
+			]);
+		});
+
+		it('clears only once the value is back by the hysteresis', async () => {
+			const { evaluate } = createAlarm();
+
+			await evaluate(alarms, 85);
+
+			assert.deepEqual(await evaluate(alarms, 79), []);
+			assert.deepEqual(await evaluate(alarms, 75), []);
+			assert.deepEqual(summary(await evaluate(alarms, 74.9)), [
+				{ event: 'cleared', level: 'high', value: 74.9 },
+			]);
+			assert.deepEqual(await evaluate(alarms, 79), []);
+		});
+
+		it('eases off to the less severe level past the hysteresis', async () => {
+			const { evaluate } = createAlarm();
+
+			await evaluate(alarms, 92);
+
+			assert.deepEqual(await evaluate(alarms, 86), []);
+			assert.deepEqual(summary(await evaluate(alarms, 84)), [
+				{ event: 'eased', level: 'high', value: 84 },
+			]);
+		});
+
+		it('raises low alarms below the low limits', async () => {
+			const { evaluate } = createAlarm();
+			const low = [
+				{ name: 'pressure', valueField: 'value', lowLimit: 2, lowLowLimit: 1, hysteresis: 0.5 },
+			];
+
+			assert.deepEqual(summary(await evaluate(low, 0.5)), [
+				{ event: 'raised', level: 'lowLow', value: 0.5 },
+			]);
+			assert.deepEqual(await evaluate(low, 1.5), []);
+			assert.deepEqual(summary(await evaluate(low, 1.6)), [
+				{ event: 'eased', level: 'low', value: 1.6 },
+			]);
+			assert.deepEqual(await evaluate(low, 2.5), []);
+			assert.deepEqual(summary(await evaluate(low, 2.6)), [
+				{ event: 'cleared', level: 'low', value: 2.6 },
+			]);
+		});
+	});
+
+	describe('delays', () => {
+		const alarms = [
+			{ name: 'level', valueField: 'value', highLimit: 10, onDelay: 1000, offDelay: 500 },
+		];
+
+		it('raises once the value has stayed in the level for the on delay', async () => {
+			const { evaluate } = createAlarm();
+
+			assert.deepEqual(await evaluate(alarms, 12), []);
+			now += 999;
+			assert.deepEqual(await evaluate(alarms, 12), []);
+			now += 1;
+			assert.deepEqual(summary(await evaluate(alarms, 12)), [
+				{ event: 'raised', level: 'high', value: 12 },
+			]);
+		});
+
+		it('restarts the on delay when the value drops back in between', async () => {
+			const { evaluate } = createAlarm();
+
+			await evaluate(alarms, 12);
+			now += 600;
+			assert.deepEqual(await evaluate(alarms, 8), []);
+			now += 600;
+			assert.deepEqual(await evaluate(alarms, 12), []);
+			now += 600;
+			assert.deepEqual(await evaluate(alarms, 12), []);
+			now += 400;
+			assert.deepEqual(summary(await evaluate(alarms, 12)), [
+				{ event: 'raised', level: 'high', value: 12 },
+			]);
+		});
+
+		it('clears once the value has stayed back for the off delay', async () => {
+			const { evaluate } = createAlarm();
+
+			await evaluate(alarms, 12);
+			now += 1000;
+			await evaluate(alarms, 12);
+
+			now += 2000;
+			assert.deepEqual(await evaluate(alarms, 8), []);
+			now += 499;
+			assert.deepEqual(await evaluate(alarms, 8), []);
+			now += 1;
+
+			const [cleared] = await evaluate(alarms, 8);
+			assert.equal(cleared.event, 'cleared');
+			assert.equal(cleared.raisedAt, '2026-01-01T00:00:01.000Z');
+			assert.equal(cleared.duration, 2500);
+		});
+	});
+
+	describe('acknowledgement', () => {
+		const alarms = [{ name: 'temperature', valueField: 'value', highLimit: 80 }];
+
+		it('keeps the alarm states in the workflow static data', async () => {
+			const { evaluate, staticData } = createAlarm();
+
+			await evaluate(alarms, 85);
+
+			assert.deepEqual(staticData.alarms, {
+				temperature: { level: 'high', since: now, raisedAt: now, acknowledged: false },
+			});
+		});
+
+		it('acknowledges a raised alarm once', async () => {
+			const { evaluate, acknowledge } = createAlarm();
+
+			await evaluate(alarms, 85);
+
+			const [{ timestamp, ...acknowledged }] = await acknowledge('temperature');
+			assert.deepEqual(acknowledged, {
+				alarm: 'temperature',
+				event: 'acknowledged',
+				level: 'high',
+				active: true,
+			});
+			assert.equal(typeof timestamp, 'string');
+			await assert.rejects(acknowledge('temperature'), {
+				message: 'Alarm "temperature" has nothing to acknowledge',
+			});
+
+			const [cleared] = await evaluate(alarms, 70);
+			assert.equal(cleared.acknowledged, true);
+		});
+
+		it('still awaits acknowledgement of an alarm that cleared unacknowledged', async () => {
+			const { evaluate, acknowledge } = createAlarm();
+
+			await evaluate(alarms, 85);
+			const [cleared] = await evaluate(alarms, 70);
+			assert.equal(cleared.acknowledged, false);
+
+			const [acknowledged] = await acknowledge('temperature');
+			assert.equal(acknowledged.level, null);
+			assert.equal(acknowledged.active, false);
+		});
+
+		it('starts a raised alarm unacknowledged again', async () => {
+			const { evaluate, acknowledge } = createAlarm();
+
+			await evaluate(alarms, 85);
+			await acknowledge('temperature');
+			await evaluate(alarms, 70);
+
+			const [raised] = await evaluate(alarms, 85);
+			assert.equal(raised.acknowledged, false);
+			assert.equal((await acknowledge('temperature')).length, 1);
+		});
+
+		it('keeps the acknowledgement when easing off but not when escalating', async () => {
+			const { evaluate, acknowledge } = createAlarm();
+			const levels = [
+				{ name: 'temperature', valueField: 'value', highLimit: 80, highHighLimit: 90 },
+			];
+
+			await evaluate(levels, 85);
+			await acknowledge('temperature');
+
+			const [escalated] = await evaluate(levels, 95);
+			assert.deepEqual(
+				{ event: escalated.event, previousLevel: escalated.previousLevel },
+				{ event: 'escalated', previousLevel: 'high' },
+			);
+			assert.equal(escalated.acknowledged, false);
+			await acknowledge('temperature');
+
+			const [eased] = await evaluate(levels, 85);
+			assert.deepEqual(
+				{ event: eased.event, previousLevel: eased.previousLevel },
+				{ event: 'eased', previousLevel: 'highHigh' },
+			);
+			assert.equal(eased.acknowledged, true);
+		});
+
+		it('reports the whole active time when clearing after level changes', async () => {
+			const { evaluate } = createAlarm();
+			const levels = [
+				{ name: 'temperature', valueField: 'value', highLimit: 80, highHighLimit: 90 },
+			];
+
+			await evaluate(levels, 85);
+			now += 1000;
+			await evaluate(levels, 95);
+			now += 1000;
+
+			const [cleared] = await evaluate(levels, 70);
+			assert.equal(cleared.level, 'highHigh');
+			assert.equal(cleared.raisedAt, '2026-01-01T00:00:00.000Z');
+			assert.equal(cleared.duration, 2000);
+		});
+
+		it('rejects unknown alarms', async () => {
+			const { acknowledge } = createAlarm();
+
+			await assert.rejects(acknowledge('temperature'), { message: 'Unknown alarm "temperature"' });
+		});
+	});
+
+	describe('register values', () => {
+		it('converts and scales the registers of the input', async () => {
+			const { run } = createAlarm();
+			const alarms = [
+				{
+					name: 'temperature',
+					startRegister: 1,
+					dataType: 'int16',
+					scaleFactor: 0.1,
+					highLimit: 80,
+				},
+			];
+
+			assert.deepEqual(
+				summary(await run({ operation: 'evaluate', alarms }, [{ data: [0, 850] }])),
+				[{ event: 'raised', level: 'high', value: 85 }],
+			);
+		});
+
+		it('compares 64-bit integers as numbers', async () => {
+			const { run } = createAlarm();
+			const alarms = [
+				{ name: 'energy', dataType: 'uint64', highLimit: 2 ** 32 },
+				{ name: 'balance', dataType: 'int64', startRegister: 4, lowLimit: -1 },
+			];
+
+			assert.deepEqual(
+				summary(
+					await run({ operation: 'evaluate', alarms }, [
+						{ data: [0, 1, 0, 0, 0xffff, 0xffff, 0xffff, 0xfffe] },
+					]),
+				),
+				[
+					{ event: 'raised', level: 'high', value: 2 ** 32 },
+					{ event: 'raised', level: 'low', value: -2 },
+				],
+			);
+		});
+	});
+});
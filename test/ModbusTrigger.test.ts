@@ -0,0 +1,703 @@
+import assert from 'node:assert/strict';
+import { createServer, type AddressInfo, type Socket } from 'node:net';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+
+import type { IDataObject, INodeExecutionData, ITriggerFunctions } from 'n8n-workflow';
+
+import { acquireConnection } from '../nodes/Modbus/ConnectionManager';
+import { ModbusTrigger } from '../nodes/Modbus/ModbusTrigger.node';
+import { startServer, stopServer, type ModbusServer } from '../nodes/Modbus/ServerManager';
+
+const PORT = 15021;
+const POLLING = 20;
+
+const sleep = async (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const waitFor = async (condition: () => boolean, timeout = 2000) => {
+	for (let waited = 0; !condition(); waited += 10) {
+		assert.ok(waited < timeout, 'timed out waiting for the trigger');
+		await sleep(10);
+	}
+};
+
+const DEVICE = {
+	host: '127.0.0.1',
+	port: PORT,
+	timeout: 1000,
+	unitId: 1,
+	idleTimeout: 0,
+};
+
+/**
+ * A trigger polling the test server, or the device of `credentials`, with every emitted
+ * item of its data output
+ */
+const startTrigger = async (
+	parameters: IDataObject,
+	{
+		staticData = {} as IDataObject,
+		mode = 'trigger',
+		credentials = DEVICE as IDataObject,
+		typeVersion = 1,
+	} = {},
+) => {
+	const emitted: IDataObject[][] = [];
+	const events: IDataObject[] = [];
+	const executions: Array<() => void> = [];
+	const values: IDataObject = {
+		pollMode: 'single',
+		polling: POLLING,
+		unitId: 1,
+		options: {},
+		...parameters,
+	};
+
+	const context = {
+		getCredentials: async () => credentials,
+		getNodeParameter: (name: string, fallback?: unknown) => values[name] ?? fallback,
+		getNode: () => ({ name: 'MODBUS Trigger', typeVersion }),
+		getMode: () => mode,
+		getWorkflowStaticData: () => staticData,
+		emit: (
+			[data, connection]: INodeExecutionData[][],
+			_response?: unknown,
+			done?: { resolve: () => void },
+		) => {
+			if (data.length) emitted.push(data.map((item) => item.json));
+			if (connection?.length) events.push(...connection.map((item) => item.json));
+			if (done) executions.push(() => done.resolve());
+		},
+		helpers: {
+			returnJsonArray: (items: IDataObject[]) => items.map((json) => ({ json })),
+			createDeferredPromise: () => {
+				let resolve!: () => void;
+				const promise = new Promise<void>((done) => (resolve = done));
+				return { promise, resolve };
+			},
+		},
+		logger: { warn: () => {}, info: () => {} },
+	} as unknown as ITriggerFunctions;
+
+	const response = await new ModbusTrigger().trigger.call(context);
+
+	return { emitted, events, executions, staticData, ...response };
+};
+
+type Trigger = Awaited<ReturnType<typeof startTrigger>>;
+
+describe('ModbusTrigger', () => {
+	let server: ModbusServer;
+	let trigger: Trigger | undefined;
+
+	before(async () => {
+		server = await startServer(
+			{ port: PORT, host: '127.0.0.1', unitId: 1, anyUnitId: false, size: 100 },
+			() => {},
+		);
+	});
+
+	beforeEach(() => {
+		server.write('coils', 0, new Array(16).fill(false));
+		server.write('holdingRegisters', 0, new Array(16).fill(0));
+	});
+
+	afterEach(async () => {
+		await trigger?.closeFunction?.();
+		trigger = undefined;
+	});
+
+	after(async () => {
+		await stopServer(server);
+	});
+
+	describe('read errors', () => {
+		it('reports exception replies once and keeps polling', async () => {
+			trigger = await startTrigger({
+				functionCode: 'FC3',
+				memoryAddress: '95',
+				quantity: 10,
+				options: { connectionEvents: true },
+			});
+			await sleep(POLLING * 5);
+
+			assert.deepEqual(
+				trigger.events.map(({ event, error }) => ({ event, error })),
+				[{ event: 'readError', error: 'MODBUS FC3 Error: IllegalDataAddress' }],
+			);
+			assert.equal(trigger.emitted.length, 0);
+		});
+
+		it('keeps the shared connection when the device does not answer', async () => {
+			// A gateway that accepts requests and never answers them
+			const sockets: Socket[] = [];
+			const gateway = createServer((socket) => sockets.push(socket));
+			await new Promise<void>((resolve) => gateway.listen(0, '127.0.0.1', resolve));
+			const credentials = {
+				...DEVICE,
+				port: (gateway.address() as AddressInfo).port,
+				responseTimeout: 30,
+			};
+			const neighbour = await acquireConnection(credentials);
+
+			try {
+				trigger = await startTrigger(
+					{
+						functionCode: 'FC3',
+						memoryAddress: '0',
+						quantity: 1,
+						options: { connectionEvents: true },
+					},
+					{ credentials },
+				);
+				await sleep(POLLING * 10);
+
+				assert.deepEqual(
+					trigger.events.map(({ event, error }) => ({ event, error })),
+					[{ event: 'readError', error: 'MODBUS FC3 Error: GatewayTargetDeviceFailedToRespond' }],
+				);
+				assert.equal(neighbour.closed, false);
+			} finally {
+				neighbour.release({ keepAlive: false });
+				await trigger?.closeFunction?.();
+				trigger = undefined;
+				sockets.forEach((socket) => socket.destroy());
+				await new Promise((resolve) => gateway.close(resolve));
+			}
+		});
+	});
+
+	describe('blocks', () => {
+		it('polls several blocks and names the changed ones', async () => {
+			server.write('holdingRegisters', 10, [215, 220]);
+			trigger = await startTrigger({
+				pollMode: 'blocks',
+				blocks: [
+					{ name: 'temperatures', functionCode: 'FC3', memoryAddress: '10', quantity: 2 },
+					{ name: 'alarms', functionCode: 'FC1', memoryAddress: '0', quantity: 4 },
+				],
+				options: { firstPoll: 'suppress' },
+			});
+			await sleep(POLLING * 3);
+			assert.equal(trigger.emitted.length, 0);
+
+			server.write('coils', 2, [true]);
+			await waitFor(() => trigger!.emitted.length === 1);
+
+			const [item] = trigger.emitted[0];
+			assert.deepEqual(item.changed, ['alarms']);
+			assert.deepEqual((item.blocks as IDataObject).temperatures, {
+				functionCode: 'FC3',
+				address: 10,
+				reference: '40011',
+				quantity: 2,
+				unitId: 1,
+				data: [215, 220],
+			});
+			assert.deepEqual(((item.blocks as IDataObject).alarms as IDataObject).data, [0, 0, 1, 0]);
+			assert.deepEqual(
+				(item.changes as IDataObject[]).map(({ block, address, edge }) => ({
+					block,
+					address,
+					edge,
+				})),
+				[{ block: 'alarms', address: 2, edge: 'rising' }],
+			);
+		});
+
+		it('rejects blocks without a name or with the same name', async () => {
+			const block = { functionCode: 'FC3', memoryAddress: '0', quantity: 1 };
+
+			await assert.rejects(startTrigger({ pollMode: 'blocks', blocks: [block] }), {
+				message: 'Block 1 needs a name',
+			});
+			await assert.rejects(
+				startTrigger({
+					pollMode: 'blocks',
+					blocks: [
+						{ ...block, name: 'a' },
+						{ ...block, name: 'a' },
+					],
+				}),
+				{ message: 'Block name "a" is used more than once' },
+			);
+		});
+	});
+
+	describe('addresses', () => {
+		const polled = ({ functionCode, address, reference, data }: IDataObject) => ({
+			functionCode,
+			address,
+			reference,
+			data,
+		});
+
+		it('reads references with the function code of their table', async () => {
+			server.write('inputRegisters', 2, [42]);
+			trigger = await startTrigger({
+				pollMode: 'blocks',
+				blocks: [{ name: 'level', functionCode: 'FC3', memoryAddress: '30003', quantity: 1 }],
+				options: { addressNotation: 'modicon', firstPoll: 'emit' },
+			});
+			await waitFor(() => trigger!.emitted.length === 1);
+
+			assert.deepEqual(polled((trigger.emitted[0][0].blocks as IDataObject).level as IDataObject), {
+				functionCode: 'FC4',
+				address: 2,
+				reference: '30003',
+				data: [42],
+			});
+		});
+
+		it('counts plain addresses from 1 in version 2 triggers', async () => {
+			server.write('holdingRegisters', 0, [7]);
+			trigger = await startTrigger(
+				{
+					pollMode: 'blocks',
+					blocks: [{ name: 'first', functionCode: 'FC3', memoryAddress: '1', quantity: 1 }],
+					options: { firstPoll: 'emit' },
+				},
+				{ typeVersion: 2 },
+			);
+			await waitFor(() => trigger!.emitted.length === 1);
+
+			assert.deepEqual(polled((trigger.emitted[0][0].blocks as IDataObject).first as IDataObject), {
+				functionCode: 'FC3',
+				address: 0,
+				reference: '40001',
+				data: [7],
+			});
+		});
+	});
+
+	describe('change detection', () => {
+		it('ignores changes within the deadband', async () => {
+			server.write('holdingRegisters', 0, [100, 100]);
+			trigger = await startTrigger({
+				functionCode: 'FC3',
+				memoryAddress: '0',
+				quantity: 2,
+				options: { deadband: 5, firstPoll: 'emit' },
+			});
+			await waitFor(() => trigger!.emitted.length === 1);
+
+			server.write('holdingRegisters', 0, [104, 95]);
+			await sleep(POLLING * 5);
+			assert.equal(trigger.emitted.length, 1);
+
+			server.write('holdingRegisters', 0, [106, 95]);
+			await waitFor(() => trigger!.emitted.length === 2);
+
+			const [item] = trigger.emitted[1];
+			assert.deepEqual(item.data, [106, 95]);
+			assert.deepEqual(
+				(item.changes as IDataObject[]).map(({ index, previous, current }) => ({
+					index,
+					previous,
+					current,
+				})),
+				[{ index: 0, previous: 100, current: 106 }],
+			);
+		});
+
+		it('applies percentage and per index deadbands and skips ignored indices', async () => {
+			server.write('holdingRegisters', 0, [1000, 1000, 1000]);
+			trigger = await startTrigger({
+				functionCode: 'FC3',
+				memoryAddress: '0',
+				quantity: 3,
+				options: {
+					deadband: 10,
+					deadbandType: 'percentage',
+					indexDeadbands: '1:1',
+					ignoreIndices: '2',
+					firstPoll: 'emit',
+				},
+			});
+			await waitFor(() => trigger!.emitted.length === 1);
+
+			server.write('holdingRegisters', 0, [1090, 1000, 5000]);
+			await sleep(POLLING * 5);
+			assert.equal(trigger.emitted.length, 1);
+
+			server.write('holdingRegisters', 0, [1090, 1002, 5000]);
+			await waitFor(() => trigger!.emitted.length === 2);
+
+			const [item] = trigger.emitted[1];
+			assert.deepEqual(
+				(item.changes as IDataObject[]).map(({ index }) => index),
+				[1],
+			);
+		});
+
+		it('emits edges held back by the minimum interval once it has passed', async () => {
+			trigger = await startTrigger({
+				functionCode: 'FC1',
+				memoryAddress: '0',
+				quantity: 8,
+				options: { triggerOn: 'risingEdge', minInterval: 300 },
+			});
+			await sleep(POLLING * 3);
+
+			server.write('coils', 0, [true]);
+			await waitFor(() => trigger!.emitted.length === 1);
+
+			server.write('coils', 1, [true]);
+			await sleep(POLLING * 5);
+			assert.equal(trigger.emitted.length, 1);
+
+			await waitFor(() => trigger!.emitted.length === 2);
+			const [item] = trigger.emitted[1];
+			assert.deepEqual(
+				(item.changes as IDataObject[]).map(({ index, edge }) => ({ index, edge })),
+				[{ index: 1, edge: 'rising' }],
+			);
+		});
+	});
+
+	describe('edges', () => {
+		const coils = { functionCode: 'FC1', memoryAddress: '0', quantity: 8 };
+		const edges = (item: IDataObject) =>
+			(item.changes as IDataObject[]).map(({ address, edge }) => ({ address, edge }));
+
+		it('fires only on the selected edge of the selected addresses', async () => {
+			trigger = await startTrigger({
+				...coils,
+				options: { triggerOn: 'fallingEdge', edgeAddresses: '1-2' },
+			});
+			await sleep(POLLING * 3);
+
+			server.write('coils', 0, [true, true, true]);
+			await sleep(POLLING * 5);
+			assert.equal(trigger.emitted.length, 0);
+
+			server.write('coils', 0, [false, false]);
+			await waitFor(() => trigger!.emitted.length === 1);
+			assert.deepEqual(edges(trigger.emitted[0][0]), [{ address: 1, edge: 'falling' }]);
+		});
+
+		it('counts edge addresses from the address base', async () => {
+			trigger = await startTrigger({
+				...coils,
+				memoryAddress: '1',
+				options: { triggerOn: 'risingEdge', edgeAddresses: '3', addressBase: 1 },
+			});
+			await sleep(POLLING * 3);
+
+			server.write('coils', 1, [true, true]);
+			await waitFor(() => trigger!.emitted.length === 1);
+			assert.deepEqual(edges(trigger.emitted[0][0]), [{ address: 2, edge: 'rising' }]);
+		});
+
+		it('ignores states held for fewer polls than the debounce', async () => {
+			trigger = await startTrigger({
+				...coils,
+				options: { triggerOn: 'bothEdges', debounce: 4 },
+			});
+			await sleep(POLLING * 3);
+
+			server.write('coils', 0, [true]);
+			await sleep(POLLING);
+			server.write('coils', 0, [false]);
+			await sleep(POLLING * 6);
+			assert.equal(trigger.emitted.length, 0);
+
+			server.write('coils', 0, [true]);
+			await waitFor(() => trigger!.emitted.length === 1);
+			assert.deepEqual(edges(trigger.emitted[0][0]), [{ address: 0, edge: 'rising' }]);
+		});
+
+		it('accepts states once held for the debounce time', async () => {
+			trigger = await startTrigger({
+				...coils,
+				options: { debounce: 150, debounceUnit: 'milliseconds', firstPoll: 'suppress' },
+			});
+			await sleep(POLLING * 3);
+
+			const since = Date.now();
+			server.write('coils', 5, [true]);
+			await waitFor(() => trigger!.emitted.length === 1);
+
+			assert.ok(Date.now() - since >= 150);
+			assert.deepEqual(edges(trigger.emitted[0][0]), [{ address: 5, edge: 'rising' }]);
+		});
+	});
+
+	describe('change payloads', () => {
+		const range = { functionCode: 'FC3', memoryAddress: '0', quantity: 3 };
+
+		it('lists the changed points of a poll with previous and current values', async () => {
+			trigger = await startTrigger({ ...range, options: { firstPoll: 'suppress' } });
+			await sleep(POLLING * 3);
+
+			server.write('holdingRegisters', 0, [7, 0, -2]);
+			await waitFor(() => trigger!.emitted.length === 1);
+
+			const [item] = trigger.emitted[0];
+			assert.equal(item.reason, 'change');
+			assert.deepEqual(item.data, [7, 0, -2]);
+			assert.deepEqual(item.changes, [
+				{
+					functionCode: 'FC3',
+					unitId: 1,
+					index: 0,
+					address: 0,
+					reference: '40001',
+					previous: 0,
+					current: 7,
+				},
+				{
+					functionCode: 'FC3',
+					unitId: 1,
+					index: 2,
+					address: 2,
+					reference: '40003',
+					previous: 0,
+					current: -2,
+				},
+			]);
+		});
+
+		it('emits one item per changed point', async () => {
+			trigger = await startTrigger({
+				...range,
+				options: { firstPoll: 'suppress', emitItems: 'point' },
+			});
+			await sleep(POLLING * 3);
+
+			server.write('holdingRegisters', 1, [12]);
+			await waitFor(() => trigger!.emitted.length === 1);
+
+			assert.deepEqual(trigger.emitted[0], [
+				{
+					functionCode: 'FC3',
+					unitId: 1,
+					index: 1,
+					address: 1,
+					reference: '40002',
+					previous: 0,
+					current: 12,
+					reason: 'change',
+				},
+			]);
+		});
+
+		it('emits every point when a poll is emitted without changes', async () => {
+			trigger = await startTrigger({
+				...range,
+				options: { firstPoll: 'suppress', emitItems: 'point', emitOn: 'poll' },
+			});
+			await waitFor(() => trigger!.emitted.length === 1);
+
+			assert.deepEqual(
+				trigger.emitted[0].map(({ index, current, reason }) => ({ index, current, reason })),
+				[
+					{ index: 0, current: 0, reason: 'poll' },
+					{ index: 1, current: 0, reason: 'poll' },
+					{ index: 2, current: 0, reason: 'poll' },
+				],
+			);
+		});
+	});
+
+	describe('emission modes', () => {
+		const range = { functionCode: 'FC3', memoryAddress: '0', quantity: 2 };
+		const reasons = (trigger: Trigger) => trigger.emitted.map(([item]) => item.reason);
+
+		it('emits every poll', async () => {
+			trigger = await startTrigger({ ...range, options: { emitOn: 'poll' } });
+			await waitFor(() => trigger!.emitted.length >= 3);
+
+			assert.deepEqual(reasons(trigger).slice(0, 3), ['change', 'poll', 'poll']);
+			assert.deepEqual(trigger.emitted[1][0].changes, []);
+		});
+
+		it('emits snapshots between changes', async () => {
+			trigger = await startTrigger({
+				...range,
+				options: { emitOn: 'changeAndSnapshot', snapshotInterval: 0.005, firstPoll: 'suppress' },
+			});
+			await sleep(POLLING * 3);
+
+			server.write('holdingRegisters', 0, [1]);
+			await waitFor(() => trigger!.emitted.length === 2);
+
+			assert.deepEqual(reasons(trigger), ['change', 'snapshot']);
+			assert.deepEqual(trigger.emitted[1][0].data, [1, 0]);
+		});
+
+		it('waits for each execution without parallel processing', async () => {
+			trigger = await startTrigger({
+				...range,
+				options: { emitOn: 'poll', parallelProcessing: false },
+			});
+			await waitFor(() => trigger!.emitted.length === 1);
+			await sleep(POLLING * 5);
+			assert.equal(trigger.emitted.length, 1);
+
+			trigger.executions[0]();
+			await waitFor(() => trigger!.emitted.length === 2);
+		});
+	});
+
+	describe('buffered sampling', () => {
+		const range = { functionCode: 'FC3', memoryAddress: '0', quantity: 2 };
+
+		it('emits full buffers with aggregates of every point', async () => {
+			server.write('holdingRegisters', 0, [10, 20]);
+			trigger = await startTrigger({
+				...range,
+				options: { emitOn: 'buffer', bufferSize: 4, bufferWindow: 60, aggregates: true },
+			});
+			await sleep(POLLING * 2);
+			server.write('holdingRegisters', 0, [30]);
+			await waitFor(() => trigger!.emitted.length === 1);
+
+			const [batch] = trigger.emitted[0];
+			const samples = batch.samples as Array<{ timestamp: string; data: number[] }>;
+			const first = samples.map(({ data }) => data[0]);
+
+			assert.equal(batch.reason, 'buffer');
+			assert.equal(batch.count, 4);
+			assert.equal(batch.windowStart, samples[0].timestamp);
+			assert.equal(batch.windowEnd, samples[3].timestamp);
+			assert.deepEqual(
+				samples.map(({ data }) => data[1]),
+				[20, 20, 20, 20],
+			);
+			assert.deepEqual(batch.aggregates, [
+				{
+					min: Math.min(...first),
+					max: Math.max(...first),
+					avg: first.reduce((sum, value) => sum + value, 0) / 4,
+					last: first[3],
+				},
+				{ min: 20, max: 20, avg: 20, last: 20 },
+			]);
+		});
+
+		it('keys samples by block name', async () => {
+			trigger = await startTrigger({
+				pollMode: 'blocks',
+				blocks: [
+					{ name: 'levels', functionCode: 'FC3', memoryAddress: '0', quantity: 1 },
+					{ name: 'pumps', functionCode: 'FC1', memoryAddress: '0', quantity: 2 },
+				],
+				options: { emitOn: 'buffer', bufferSize: 2 },
+			});
+			await waitFor(() => trigger!.emitted.length === 1);
+
+			const [batch] = trigger.emitted[0];
+			assert.deepEqual(
+				(batch.samples as IDataObject[]).map(({ blocks }) => blocks),
+				[
+					{ levels: [0], pumps: [0, 0] },
+					{ levels: [0], pumps: [0, 0] },
+				],
+			);
+			assert.equal(batch.aggregates, undefined);
+		});
+
+		it('emits one batch from a manual run', async () => {
+			trigger = await startTrigger(
+				{ ...range, options: { emitOn: 'buffer', bufferSize: 3 } },
+				{ mode: 'manual' },
+			);
+			await trigger.manualTriggerFunction!();
+
+			assert.equal(trigger.emitted.length, 1);
+			assert.equal(trigger.emitted[0][0].count, 3);
+		});
+	});
+
+	describe('persisted values', () => {
+		const range = { functionCode: 'FC3', memoryAddress: '0', quantity: 2 };
+		const persisted = (values: number[]) => ({
+			lastValues: {
+				data: { functionCode: 'FC3', address: 0, quantity: 2, unitId: 1, values },
+			},
+		});
+		const reasons = (trigger: Trigger) => trigger.emitted.map(([item]) => item.reason);
+
+		it('emits the first poll on activation even without changes', async () => {
+			trigger = await startTrigger(
+				{ ...range, options: { firstPoll: 'emit' } },
+				{ staticData: persisted([0, 0]) },
+			);
+			await waitFor(() => trigger!.emitted.length === 1);
+			await sleep(POLLING * 3);
+
+			assert.deepEqual(reasons(trigger), ['activation']);
+		});
+
+		it('emits the first poll only if it changed since the last run', async () => {
+			trigger = await startTrigger(range, { staticData: persisted([0, 0]) });
+			await sleep(POLLING * 5);
+			assert.equal(trigger.emitted.length, 0);
+			await trigger.closeFunction!();
+
+			trigger = await startTrigger(range, { staticData: persisted([0, 3]) });
+			await waitFor(() => trigger!.emitted.length === 1);
+			assert.deepEqual(
+				(trigger.emitted[0][0].changes as IDataObject[]).map(({ index, previous }) => ({
+					index,
+					previous,
+				})),
+				[{ index: 1, previous: 3 }],
+			);
+		});
+
+		it('suppresses the first poll', async () => {
+			trigger = await startTrigger(
+				{ ...range, options: { firstPoll: 'suppress' } },
+				{ staticData: persisted([5, 5]) },
+			);
+			await sleep(POLLING * 5);
+
+			assert.equal(trigger.emitted.length, 0);
+		});
+
+		it('starts afresh when the range changed since the last run', async () => {
+			trigger = await startTrigger(
+				{ ...range, quantity: 3, options: { deadband: 100 } },
+				{ staticData: persisted([0, 0]) },
+			);
+			await waitFor(() => trigger!.emitted.length === 1);
+
+			assert.deepEqual(
+				(trigger.emitted[0][0].changes as IDataObject[]).map(({ previous }) => previous),
+				[null, null, null],
+			);
+			assert.deepEqual(
+				((trigger.staticData.lastValues as IDataObject).data as IDataObject).values,
+				[0, 0, 0],
+			);
+		});
+
+		it('keeps registers unsigned whatever the register format', async () => {
+			server.write('holdingRegisters', 0, [-1, 5]);
+			trigger = await startTrigger({ ...range, options: { registerFormat: 'uint16' } });
+			await waitFor(() => trigger!.emitted.length === 1);
+
+			const { staticData } = trigger;
+			assert.deepEqual((staticData.lastValues as IDataObject).data, {
+				functionCode: 'FC3',
+				address: 0,
+				quantity: 2,
+				unitId: 1,
+				values: [65535, 5],
+			});
+			await trigger.closeFunction!();
+
+			trigger = await startTrigger(
+				{ ...range, options: { registerFormat: 'hex' } },
+				{ staticData },
+			);
+			await sleep(POLLING * 5);
+			assert.equal(trigger.emitted.length, 0);
+
+			server.write('holdingRegisters', 1, [6]);
+			await waitFor(() => trigger!.emitted.length === 1);
+			assert.deepEqual(trigger.emitted[0][0].data, ['0xFFFF', '0x0006']);
+		});
+	});
+});
@@ -0,0 +1,221 @@
+import assert from 'node:assert/strict';
+import { spawn, spawnSync, type ChildProcess } from 'node:child_process';
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Duplex } from 'node:stream';
+import { after, before, describe, it } from 'node:test';
+
+import modbus from 'modbus-stream';
+import type { SerialPort } from 'serialport';
+
+import { crc16, rtuTransport, type FramedTransport } from '../nodes/Modbus/Framing';
+import { createClient, modbusRequest } from '../nodes/Modbus/GenericFunctions';
+
+/**
+ * The serial line test needs socat to create a pair of pseudo-terminals, and is skipped
+ * without it. The framing test below covers the same requests without a terminal.
+ */
+const hasSocat = !spawnSync('socat', ['-V']).error;
+
+const sleep = async (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const withCrc = (frame: Buffer) => {
+	const crc = Buffer.alloc(2);
+	crc.writeUInt16LE(crc16(frame));
+
+	return Buffer.concat([frame, crc]);
+};
+
+/**
+ * The RTU response of unit 1 to an 8 byte request frame: FC3 reads answer register
+ * `address + index`, other requests of unit 1 are left unanswered
+ */
+const answer = (request: Buffer) => {
+	if (request[0] !== 1 || request[1] !== 0x03) return undefined;
+
+	const address = request.readUInt16BE(2);
+	const quantity = request.readUInt16BE(4);
+	const response = Buffer.alloc(3 + quantity * 2);
+	response[0] = 1;
+	response[1] = 0x03;
+	response[2] = quantity * 2;
+	for (let index = 0; index < quantity; index++) {
+		response.writeUInt16BE(address + index, 3 + index * 2);
+	}
+
+	return withCrc(response);
+};
+
+/**
+ * Split the byte stream of a serial slave into 8 byte request frames
+ */
+const onRequests = (stream: Duplex, handler: (request: Buffer) => void) => {
+	let buffer = Buffer.alloc(0);
+
+	stream.on('data', (data: Buffer) => {
+		buffer = Buffer.concat([buffer, data]);
+
+		while (buffer.length >= 8) {
+			handler(buffer.subarray(0, 8));
+			buffer = buffer.subarray(8);
+		}
+	});
+};
+
+/**
+ * A serial RTU slave answering FC3 reads of unit 1 with register `address + index`
+ */
+const startSlave = async (path: string) => {
+	const { SerialPort } = await import('serialport');
+	const port: SerialPort = new SerialPort({ path, baudRate: 9600 });
+
+	onRequests(port, (request) => {
+		const response = answer(request);
+		if (response) port.write(response);
+	});
+
+	await new Promise((resolve) => port.once('open', resolve));
+
+	return port;
+};
+
+/**
+ * Two connected in-memory streams, standing in for the ends of a serial line
+ */
+const createLine = () => {
+	const ends: Duplex[] = [];
+	const end = (other: () => Duplex) =>
+		new Duplex({
+			read() {},
+			write(chunk, _encoding, callback) {
+				other().push(chunk);
+				callback();
+			},
+		});
+
+	ends.push(
+		end(() => ends[1]),
+		end(() => ends[0]),
+	);
+
+	return ends;
+};
+
+/**
+ * modbus-stream's request/response layer, as the RTU client puts it on a serial port
+ */
+const ModbusStream = modbus.stream as unknown as new (
+	transport: FramedTransport,
+	options: { debug: null },
+) => modbus.TCPStream;
+
+const registers = (data: any) =>
+	(data.response.data as Buffer[]).map((value) => value.readUInt16BE(0));
+
+describe(
+	'Modbus RTU over a serial line',
+	{ skip: !hasSocat && 'requires socat, which is not installed' },
+	() => {
+		const directory = mkdtempSync(join(tmpdir(), 'modbus-rtu-'));
+		const master = join(directory, 'ttyV0');
+		const slavePath = join(directory, 'ttyV1');
+		let socat: ChildProcess;
+		let slave: SerialPort;
+
+		before(async () => {
+			socat = spawn('socat', [`pty,raw,echo=0,link=${master}`, `pty,raw,echo=0,link=${slavePath}`]);
+
+			for (let wait = 0; !(existsSync(master) && existsSync(slavePath)); wait += 50) {
+				assert.ok(wait < 5000, 'socat did not create the pseudo-terminals');
+				await sleep(50);
+			}
+
+			slave = await startSlave(slavePath);
+		});
+
+		after(async () => {
+			await new Promise((resolve) => slave?.close(resolve));
+			socat?.kill();
+			rmSync(directory, { recursive: true, force: true });
+		});
+
+		it('reads holding registers', async () => {
+			const client = await createClient({
+				protocol: 'rtu',
+				serialPath: master,
+				baudRate: 9600,
+				parity: 'none',
+				dataBits: 8,
+				stopBits: 1,
+				timeout: 1000,
+				unitId: 1,
+			});
+
+			try {
+				const data = await modbusRequest<any>((callback) =>
+					client.readHoldingRegisters({ address: 10, quantity: 3, extra: { unitId: 1 } }, callback),
+				);
+
+				assert.deepEqual(registers(data), [10, 11, 12]);
+			} finally {
+				await new Promise((resolve) => client.close(resolve));
+			}
+		});
+	},
+);
+
+describe('Modbus RTU framing on a serial stream', () => {
+	const read = async (client: modbus.TCPStream, unitId = 1) =>
+		modbusRequest((callback) =>
+			client.readHoldingRegisters({ address: 10, quantity: 3, extra: { unitId } }, callback),
+		);
+
+	it('reads holding registers from a response arriving byte by byte', async () => {
+		const [master, slave] = createLine();
+		const requests: string[] = [];
+
+		onRequests(slave, (request) => {
+			requests.push(request.toString('hex').toUpperCase());
+			for (const byte of answer(request) ?? []) {
+				slave.write(Buffer.from([byte]));
+			}
+		});
+
+		const client = new ModbusStream(rtuTransport({ unitId: 1, responseTimeout: 200 })(master), {
+			debug: null,
+		});
+
+		try {
+			assert.deepEqual(registers(await read(client)), [10, 11, 12]);
+			assert.deepEqual(registers(await read(client)), [10, 11, 12]);
+			assert.deepEqual(requests, [
+				withCrc(Buffer.from('0103000A0003', 'hex')).toString('hex').toUpperCase(),
+				withCrc(Buffer.from('0103000A0003', 'hex')).toString('hex').toUpperCase(),
+			]);
+		} finally {
+			await new Promise((resolve) => client.close(resolve));
+		}
+	});
+
+	it('ignores responses of other slaves and times out', async () => {
+		const [master, slave] = createLine();
+
+		onRequests(slave, (request) => {
+			// Answer as unit 1 whichever unit was asked
+			const response = answer(Buffer.concat([Buffer.from([1]), request.subarray(1)]));
+			if (response) slave.write(response);
+		});
+
+		const client = new ModbusStream(rtuTransport({ unitId: 1, responseTimeout: 100 })(master), {
+			debug: null,
+		});
+
+		try {
+			await assert.rejects(read(client, 2), { message: 'GatewayTargetDeviceFailedToRespond' });
+			assert.deepEqual(registers(await read(client, 1)), [10, 11, 12]);
+		} finally {
+			await new Promise((resolve) => client.close(resolve));
+		}
+	});
+});
@@ -0,0 +1,358 @@
+import assert from 'node:assert/strict';
+import { connect, type Socket } from 'node:net';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+
+import type { IDataObject, INodeExecutionData, ITriggerFunctions } from 'n8n-workflow';
+
+import { ModbusServerTrigger } from '../nodes/Modbus/ModbusServerTrigger.node';
+import {
+	getServer,
+	startServer,
+	stopServer,
+	type ModbusServer,
+	type ServerWriteEvent,
+} from '../nodes/Modbus/ServerManager';
+
+const PORT = 15023;
+const TRIGGER_PORT = 15024;
+
+/**
+ * A plain Modbus TCP client, sending one request PDU at a time and resolving with the
+ * unit ID and PDU of the response
+ */
+const createClient = async (port: number) => {
+	const socket: Socket = connect(port, '127.0.0.1');
+	await new Promise<void>((resolve, reject) => {
+		socket.once('connect', resolve);
+		socket.once('error', reject);
+	});
+
+	let transaction = 0;
+	let buffer = Buffer.alloc(0);
+	let pending: ((frame: Buffer) => void) | undefined;
+
+	socket.on('data', (data) => {
+		buffer = Buffer.concat([buffer, data]);
+
+		if (buffer.length < 6) return;
+		const length = 6 + buffer.readUInt16BE(4);
+		if (buffer.length < length) return;
+
+		const frame = buffer.subarray(0, length);
+		buffer = buffer.subarray(length);
+		pending?.(frame);
+	});
+
+	const request = async (pdu: string, unitId = 1) => {
+		const body = Buffer.from(pdu, 'hex');
+		const header = Buffer.alloc(7);
+		header.writeUInt16BE(++transaction, 0);
+		header.writeUInt16BE(body.length + 1, 4);
+		header[6] = unitId;
+
+		const frame = await new Promise<Buffer>((resolve) => {
+			pending = resolve;
+			socket.write(Buffer.concat([header, body]));
+		});
+
+		assert.equal(frame.readUInt16BE(0), transaction);
+
+		return { unitId: frame[6], pdu: frame.subarray(7).toString('hex').toUpperCase() };
+	};
+
+	const close = async () => new Promise<void>((resolve) => socket.end(resolve));
+
+	return { request, close };
+};
+
+type Client = Awaited<ReturnType<typeof createClient>>;
+
+describe('ServerManager', () => {
+	let server: ModbusServer;
+	let client: Client;
+	const writes: ServerWriteEvent[] = [];
+
+	before(async () => {
+		server = await startServer(
+			{ port: PORT, host: '127.0.0.1', unitId: 1, anyUnitId: false, size: 100 },
+			(event) => writes.push(event),
+		);
+		client = await createClient(PORT);
+	});
+
+	beforeEach(() => {
+		writes.length = 0;
+		server.write('coils', 0, new Array(100).fill(false));
+		server.write('holdingRegisters', 0, new Array(100).fill(0));
+	});
+
+	after(async () => {
+		await client.close();
+		await stopServer(server);
+	});
+
+	describe('register image', () => {
+		it('answers reads from the image', async () => {
+			server.write('holdingRegisters', 10, [1, 0x1234, -2]);
+			server.write('inputRegisters', 0, [7]);
+			server.write('coils', 3, [true, false, true]);
+			server.write('discreteInputs', 8, [1]);
+
+			assert.equal((await client.request('0300090004')).pdu, '0308000000011234FFFE');
+			assert.equal((await client.request('0400000001')).pdu, '04020007');
+			assert.equal((await client.request('0100000008')).pdu, '010128');
+			assert.equal((await client.request('0200080001')).pdu, '020101');
+		});
+
+		it('hands out registers as signed 16-bit values', () => {
+			server.write('holdingRegisters', 0, [0xffff, 0x7fff, 65536]);
+
+			assert.deepEqual(server.read('holdingRegisters', 0, 3), [-1, 32767, 0]);
+		});
+
+		it('replies IllegalDataAddress to requests outside the image', async () => {
+			assert.equal((await client.request('0300600005')).pdu, '8302');
+			assert.equal((await client.request('06006400FF')).pdu, '8602');
+			assert.deepEqual(writes, []);
+		});
+
+		it('rejects image updates outside the image', () => {
+			assert.throws(() => server.write('coils', 99, [true, true]), {
+				message: 'Addresses 99-100 are outside the coils of the server, which has 100',
+			});
+		});
+
+		it('does not report its own image updates as writes', async () => {
+			server.write('holdingRegisters', 0, [1]);
+
+			assert.equal((await client.request('0300000001')).pdu, '03020001');
+			assert.deepEqual(writes, []);
+		});
+	});
+
+	describe('write events', () => {
+		const summary = () =>
+			writes.map(({ functionCode, table, address, quantity, previous, current }) => ({
+				functionCode,
+				table,
+				address,
+				quantity,
+				previous,
+				current,
+			}));
+
+		it('reports single writes with the previous and current values', async () => {
+			server.write('holdingRegisters', 5, [42]);
+
+			assert.equal((await client.request('060005FFFF')).pdu, '060005FFFF');
+			assert.equal((await client.request('050002FF00')).pdu, '050002FF00');
+
+			assert.deepEqual(summary(), [
+				{
+					functionCode: 'FC6',
+					table: 'holdingRegisters',
+					address: 5,
+					quantity: 1,
+					previous: [42],
+					current: [-1],
+				},
+				{
+					functionCode: 'FC5',
+					table: 'coils',
+					address: 2,
+					quantity: 1,
+					previous: [false],
+					current: [true],
+				},
+			]);
+			assert.equal(writes[0].unitId, 1);
+			assert.match(writes[0].client, /^127\.0\.0\.1:\d+$/);
+		});
+
+		it('reports multiple writes', async () => {
+			server.write('holdingRegisters', 20, [1, 2]);
+
+			assert.equal((await client.request('10001400020400030004')).pdu, '1000140002');
+			assert.equal((await client.request('0F0000000A02FF01')).pdu, '0F0000000A');
+
+			assert.deepEqual(summary(), [
+				{
+					functionCode: 'FC16',
+					table: 'holdingRegisters',
+					address: 20,
+					quantity: 2,
+					previous: [1, 2],
+					current: [3, 4],
+				},
+				{
+					functionCode: 'FC15',
+					table: 'coils',
+					address: 0,
+					quantity: 10,
+					previous: new Array(10).fill(false),
+					current: [...new Array(9).fill(true), false],
+				},
+			]);
+		});
+
+		it('reports mask writes with the masked value', async () => {
+			server.write('holdingRegisters', 4, [0x12]);
+
+			// (0x12 AND 0xF2) OR (0x25 AND NOT 0xF2) = 0x17
+			assert.equal((await client.request('16000400F20025')).pdu, '16000400F20025');
+
+			assert.deepEqual(summary(), [
+				{
+					functionCode: 'FC22',
+					table: 'holdingRegisters',
+					address: 4,
+					quantity: 1,
+					previous: [0x12],
+					current: [0x17],
+				},
+			]);
+		});
+
+		it('reports the write of a read/write request and reads after it', async () => {
+			assert.equal((await client.request('17000000020000000204000A000B')).pdu, '1704000A000B');
+			assert.deepEqual(summary(), [
+				{
+					functionCode: 'FC23',
+					table: 'holdingRegisters',
+					address: 0,
+					quantity: 2,
+					previous: [0, 0],
+					current: [10, 11],
+				},
+			]);
+		});
+	});
+
+	describe('unit IDs', () => {
+		it('replies GatewayTargetDeviceFailedToRespond to other unit IDs', async () => {
+			assert.deepEqual(await client.request('0300000001', 2), { unitId: 2, pdu: '830B' });
+			assert.deepEqual(await client.request('0600000001', 2), { unitId: 2, pdu: '860B' });
+			assert.deepEqual(writes, []);
+		});
+
+		it('answers every unit ID when asked to', async () => {
+			const anyServer = await startServer(
+				{ port: PORT + 10, host: '127.0.0.1', unitId: 1, anyUnitId: true, size: 10 },
+				(event) => writes.push(event),
+			);
+			const anyClient = await createClient(PORT + 10);
+
+			try {
+				assert.deepEqual(await anyClient.request('0600010007', 5), {
+					unitId: 5,
+					pdu: '0600010007',
+				});
+				assert.equal(writes[0].unitId, 5);
+			} finally {
+				await anyClient.close();
+				await stopServer(anyServer);
+			}
+		});
+	});
+
+	describe('servers', () => {
+		it('runs one server per port', async () => {
+			assert.equal(getServer(PORT), server);
+			await assert.rejects(
+				startServer(
+					{ port: PORT, host: '127.0.0.1', unitId: 1, anyUnitId: false, size: 1 },
+					() => {},
+				),
+				{ message: `A MODBUS Server is already running on port ${PORT}` },
+			);
+		});
+
+		it('frees the port when stopped', async () => {
+			const other = await startServer(
+				{ port: PORT + 10, host: '127.0.0.1', unitId: 1, anyUnitId: false, size: 1 },
+				() => {},
+			);
+			await stopServer(other);
+
+			assert.throws(() => getServer(PORT + 10), /No MODBUS Server is running on port/);
+		});
+
+		it('explains that queue mode workers cannot reach the server', () => {
+			process.env.EXECUTIONS_MODE = 'queue';
+
+			try {
+				assert.throws(() => getServer(PORT + 10), /n8n runs in queue mode/);
+			} finally {
+				delete process.env.EXECUTIONS_MODE;
+			}
+		});
+	});
+});
+
+describe('ModbusServerTrigger', () => {
+	let emitted: IDataObject[];
+	let closeFunction: (() => Promise<void>) | undefined;
+
+	const startTrigger = async () => {
+		const values: IDataObject = {
+			port: TRIGGER_PORT,
+			unitId: 1,
+			options: { host: '127.0.0.1', size: 10 },
+		};
+		const context = {
+			getNodeParameter: (name: string) => values[name],
+			getNode: () => ({ name: 'MODBUS Server Trigger' }),
+			emit: ([data]: INodeExecutionData[][]) => emitted.push(...data.map((item) => item.json)),
+			helpers: {
+				returnJsonArray: (items: IDataObject[]) => items.map((json) => ({ json })),
+			},
+		} as unknown as ITriggerFunctions;
+
+		return new ModbusServerTrigger().trigger.call(context);
+	};
+
+	beforeEach(() => {
+		emitted = [];
+	});
+
+	afterEach(async () => {
+		await closeFunction?.();
+		closeFunction = undefined;
+	});
+
+	it('emits client writes', async () => {
+		({ closeFunction } = await startTrigger());
+		const client = await createClient(TRIGGER_PORT);
+
+		try {
+			await client.request('0600030064');
+		} finally {
+			await client.close();
+		}
+
+		assert.equal(emitted.length, 1);
+		assert.deepEqual(
+			{ ...emitted[0], client: undefined, timestamp: undefined },
+			{
+				functionCode: 'FC6',
+				table: 'holdingRegisters',
+				unitId: 1,
+				address: 3,
+				quantity: 1,
+				previous: [0],
+				current: [100],
+				client: undefined,
+				timestamp: undefined,
+			},
+		);
+	});
+
+	it('fails to start on a port that is in use', async () => {
+		({ closeFunction } = await startTrigger());
+
+		await assert.rejects(startTrigger(), {
+			name: 'NodeOperationError',
+			message: `A MODBUS Server is already running on port ${TRIGGER_PORT}`,
+		});
+	});
+});